@@ -1,32 +1,141 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Message, ArtifactState, ResearchPlan, ResearchStep } from './types';
-import { SendIcon, SparklesIcon, FileTextIcon, GlobeIcon, CheckIcon, ClockIcon } from './components/Icons';
-import SimpleMarkdown from './components/MarkdownRenderer';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { FollowUpExchange, Message, PlanRevision, ResearchPlan, ReportTemplate, ResearchMonitor, ResearchSession, ResearchSettings, SettingsPreset } from './types';
+import { SendIcon, SparklesIcon, FileTextIcon, ClockIcon, UploadIcon, PlusIcon, SearchIcon, PaperclipIcon, GlobeIcon, SettingsIcon, TableIcon, RefreshIcon } from './components/Icons';
+import MarkdownRenderer from './components/MarkdownRenderer';
 import PlanReview from './components/PlanReview';
-import { createResearchPlan, executeResearchStep, generateFinalReportStream } from './services/gemini';
+import ResearchProtocol from './components/ResearchProtocol';
+import RunControls from './components/RunControls';
+import HistorySidebar from './components/HistorySidebar';
+import ExportMenu from './components/ExportMenu';
+import ReferenceList from './components/ReferenceList';
+import DocumentList from './components/DocumentList';
+import SourcePolicyPanel from './components/SourcePolicyPanel';
+import SettingsPanel from './components/SettingsPanel';
+import UsageBadge from './components/UsageBadge';
+import VerificationPanel from './components/VerificationPanel';
+import RevisionPanel from './components/RevisionPanel';
+import ComparisonForm, { ComparisonDraft } from './components/ComparisonForm';
+import FindingCard from './components/FindingCard';
+import { comparisonTopic, isValidComparison, parseList } from './services/comparison';
+import MonitorPanel from './components/MonitorPanel';
+import KnowledgeGraphView from './components/KnowledgeGraphView';
+import TraceInspector from './components/TraceInspector';
+import { crossTopicGraph } from './services/graph';
+import { advanceSchedule, createMonitor, isDue, runMonitor, scheduleMonitor } from './services/monitors';
+import { createResearchOrchestrator, initialRunState, RunState } from './services/orchestrator';
+import { deleteMonitor, deletePreset, deleteSession, deleteTemplate, listMonitors, listPresets, listSessions, listTemplates, renameSession, saveMonitor, savePreset, saveSession, saveTemplate } from './services/sessionStore';
+import { BUILT_IN_PRESETS } from './services/settings';
+import { BUILT_IN_TEMPLATES } from './services/templates';
+import { getProvider } from './services/providers';
+import { downloadFile, parseJsonBundle, slugify } from './services/exporters';
+import { toTraceJson } from './services/trace';
+import { ACCEPTED_DOCUMENT_TYPES, readDocument } from './services/documents';
 import { motion, AnimatePresence } from 'framer-motion';
 
+const MONITOR_CHECK_INTERVAL_MS = 60 * 1000;
+
+const welcomeMessage = (): Message => ({
+  id: 'welcome',
+  role: 'system',
+  content: "Welcome to DeepDive. I am your AI Research Agent. I will coordinate a Planner, Researcher, and Reporter to investigate any topic for you.",
+  timestamp: Date.now()
+});
+
+// Identity of the session currently shown; the rest of the record is derived from run state
+type ActiveSession = Pick<ResearchSession, 'id' | 'title' | 'createdAt' | 'completedAt'>;
+
 export default function App() {
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'system',
-      content: "Welcome to DeepDive. I am your AI Research Agent. I will coordinate a Planner, Researcher, and Reporter to investigate any topic for you.",
-      timestamp: Date.now()
-    }
-  ]);
+  const [messages, setMessages] = useState<Message[]>([welcomeMessage()]);
   
-  const [artifact, setArtifact] = useState<ArtifactState>({
-    title: 'Research Hub',
-    content: '',
-    phase: 'idle',
-    sources: []
-  });
-
   // Coordinator State
-  const [currentPlan, setCurrentPlan] = useState<ResearchPlan | null>(null);
+  const orchestrator = useMemo(() => createResearchOrchestrator(), []);
+  const [run, setRun] = useState<RunState>(orchestrator.getState());
+  const { artifact, plan: currentPlan } = run;
+  // A new topic can be started whenever no run is active
+  const canStartNew = artifact.phase === 'idle' || artifact.phase === 'cancelled';
+  // Highlighted in the report until the claims are revised
+  const flaggedClaims = useMemo(() => run.verification?.claims.filter(c => c.verdict !== 'supported') || [], [run.verification]);
+  const thinkingIdRef = useRef<string | null>(null);
+
+  // Session History
+  const [sessions, setSessions] = useState<ResearchSession[]>([]);
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSourceRules, setShowSourceRules] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  // Shows the knowledge graph in place of the report
+  const [showGraph, setShowGraph] = useState(false);
+  const [showTrace, setShowTrace] = useState(false);
+  // Comparison mode is on while a draft exists
+  const [comparisonDraft, setComparisonDraft] = useState<ComparisonDraft | null>(null);
+  // Step whose finding is open from a comparison matrix cell
+  const [openFindingId, setOpenFindingId] = useState<string | null>(null);
+  const [presets, setPresets] = useState<SettingsPreset[]>([]);
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [monitors, setMonitors] = useState<ResearchMonitor[]>([]);
+  const [showMonitors, setShowMonitors] = useState(false);
+  // One monitor runs at a time; the ref guards against the scheduler and a click starting two
+  const [runningMonitorId, setRunningMonitorId] = useState<string | null>(null);
+  const runningMonitorRef = useRef<string | null>(null);
+  const monitorsRef = useRef<ResearchMonitor[]>([]);
+  monitorsRef.current = monitors;
+  // The run, messages and session as last saved. Every change replaces them, so references are compared
+  // instead of serializing the run and its trace on each streamed chunk.
+  const lastSavedRef = useRef<unknown[]>([]);
+  // Imported bundles are shown read-only and never written to the history
+  const [readOnly, setReadOnly] = useState(false);
+  // Once a report is done the input asks follow-up questions; a new topic is an explicit action.
+  // Imported reports can't be asked about, since an answer may add research to them.
+  const canAsk = artifact.phase === 'completed' && !!currentPlan && !readOnly && !run.revisingClaims && !run.rewritingSection;
+  // Only one change to the finished report at a time
+  const canRevise = artifact.phase === 'completed' && !readOnly && !run.answering && !run.verifying && !run.revisingClaims && !run.rewritingSection;
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listSessions().then(setSessions).catch(e => console.error("Failed to load session history", e));
+    listPresets().then(setPresets).catch(e => console.error("Failed to load settings presets", e));
+    listTemplates().then(setTemplates).catch(e => console.error("Failed to load report templates", e));
+    listMonitors().then(setMonitors).catch(e => console.error("Failed to load monitors", e));
+  }, []);
+
+  // Autosave the active session whenever the run or the conversation changes
+  useEffect(() => {
+    if (!activeSession) return;
+    const snapshot = [run, messages, activeSession];
+    if (snapshot.every((value, i) => value === lastSavedRef.current[i])) return;
+
+    const timer = setTimeout(() => {
+      lastSavedRef.current = snapshot;
+      const completedAt = activeSession.completedAt ?? (artifact.phase === 'completed' ? Date.now() : undefined);
+      const session: ResearchSession = {
+        ...activeSession,
+        completedAt,
+        topic: run.plan?.topic || artifact.title,
+        plan: run.plan,
+        artifact,
+        messages,
+        documents: run.documents,
+        sourcePolicy: run.sourcePolicy,
+        settings: run.settings,
+        usage: run.usage,
+        verification: run.verification,
+        revisions: run.revisions,
+        graph: run.graph,
+        trace: run.trace,
+        updatedAt: Date.now()
+      };
+      saveSession(session)
+        .then(saved => setSessions(prev => [saved, ...prev.filter(s => s.id !== saved.id)]))
+        .catch(e => console.error("Failed to save session", e));
+      if (completedAt !== activeSession.completedAt) {
+        setActiveSession(prev => prev && { ...prev, completedAt });
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [run, messages, activeSession]);
 
   const chatEndRef = useRef<HTMLDivElement>(null);
 
@@ -41,144 +150,475 @@ export default function App() {
     scrollToBottom();
   }, [messages, artifact.phase]);
 
+  // Mirror coordinator events into the chat log
+  useEffect(() => orchestrator.subscribe((event, state) => {
+    setRun(state);
+
+    const addMessage = (content: string) => setMessages(prev => [...prev, {
+      id: `${Date.now()}-${prev.length}`,
+      role: 'model',
+      content,
+      timestamp: Date.now()
+    }]);
+
+    switch (event.type) {
+      case 'planning-started': {
+        const thinkingId = `${Date.now()}-thinking`;
+        thinkingIdRef.current = thinkingId;
+        setMessages(prev => [...prev, {
+          id: thinkingId,
+          role: 'model',
+          content: `Coordinator: Activating Planner agent for "${event.topic}"...`,
+          timestamp: Date.now(),
+          isThinking: true
+        }]);
+        break;
+      }
+      case 'plan-revision-started': {
+        const thinkingId = `${Date.now()}-thinking`;
+        thinkingIdRef.current = thinkingId;
+        setMessages(prev => [...prev, {
+          id: thinkingId,
+          role: 'model',
+          content: `Planner: Revising the plan with your feedback...`,
+          timestamp: Date.now(),
+          isThinking: true
+        }]);
+        break;
+      }
+      case 'plan-revision-failed':
+        setMessages(prev => prev.map(m => m.id === thinkingIdRef.current ? { ...m, isThinking: false } : m));
+        addMessage("Planner failed to revise the plan. The previous draft is still available above.");
+        break;
+      case 'plan-ready':
+        // Update Message to show Plan Review UI
+        setMessages(prev => prev.map(m =>
+          m.id === thinkingIdRef.current
+            ? {
+                ...m,
+                isThinking: false,
+                content: m.content.startsWith('Planner: Revising')
+                  ? `Planner: I've revised the plan. Please review it below.`
+                  : `Planner: I've outlined a strategy. Please review it below.`,
+                plan: event.plan // Triggers PlanReview component in render
+              }
+            : m
+        ));
+        break;
+      case 'plan-failed':
+        setMessages(prev => prev.map(m => m.id === thinkingIdRef.current ? { ...m, isThinking: false } : m));
+        addMessage("Planner failed to generate a plan. Please try again.");
+        break;
+      case 'research-started':
+        addMessage("Plan approved. Deploying Researcher agent now. Check the sidebar for live progress.");
+        break;
+      case 'analysis-started':
+        addMessage(`Round ${event.round - 1} complete. Analyst agent is looking for gaps and contradictions...`);
+        break;
+      case 'round-planned':
+        addMessage(event.steps.length
+          ? `Analyst queued ${event.steps.length} follow-up step${event.steps.length > 1 ? 's' : ''} for round ${event.round}.`
+          : "Analyst found no open questions worth another round.");
+        break;
+      case 'analysis-failed':
+        addMessage("Analyst failed to review the findings. Writing the report from what we have so far.");
+        break;
+      case 'budget-exceeded':
+        addMessage("The run budget would be exceeded. Skipping the remaining steps and writing the report from what we have so far.");
+        break;
+      case 'report-started':
+        addMessage("Research complete. Reporter agent is compiling the final artifact...");
+        break;
+      case 'report-failed':
+        addMessage("Reporter failed to finish the report. The partial draft is kept in the artifact panel.");
+        break;
+      case 'verification-ready': {
+        const flagged = event.verification.claims.filter(c => c.verdict !== 'supported').length;
+        addMessage(flagged
+          ? `Fact-checker flagged ${flagged} of ${event.verification.claims.length} claims. They are highlighted in the report.`
+          : `Fact-checker found support for all ${event.verification.claims.length} claims in the research notes.`);
+        break;
+      }
+      case 'verification-failed':
+        addMessage("Fact-checker failed to check the report. It is shown unverified.");
+        break;
+      case 'claims-revision-failed':
+        addMessage("Reporter failed to revise the flagged claims. The report is unchanged.");
+        break;
+      case 'section-rewrite-started':
+        addMessage(`Reporter is rewriting "${event.path}": ${event.instruction}`);
+        break;
+      case 'section-rewrite-failed':
+        addMessage("Reporter failed to rewrite the section. The report is unchanged.");
+        break;
+      case 'report-revised':
+        if (event.kind === 'restore') addMessage(`${event.label}. It is now the current report.`);
+        break;
+      case 'paused':
+        addMessage("Run paused. Resume to pick up from the first unfinished step.");
+        break;
+      case 'resumed':
+        addMessage("Resuming research...");
+        break;
+      case 'question-asked':
+      case 'followup-research-started': {
+        const thinkingId = `${Date.now()}-thinking`;
+        thinkingIdRef.current = thinkingId;
+        setMessages(prev => [...prev, {
+          id: thinkingId,
+          role: 'model',
+          content: event.type === 'question-asked'
+            ? "Checking the research notes..."
+            : `Running a targeted search for "${event.query}"...`,
+          timestamp: Date.now(),
+          isThinking: true
+        }]);
+        break;
+      }
+      case 'answer-ready':
+        setMessages(prev => prev.map(m =>
+          m.id === thinkingIdRef.current
+            ? {
+                ...m,
+                isThinking: false,
+                content: event.answer.answer,
+                followUp: { question: event.question, suggestedQuery: event.answer.suggestedQuery }
+              }
+            : m
+        ));
+        break;
+      case 'answer-failed':
+        setMessages(prev => prev.map(m =>
+          m.id === thinkingIdRef.current
+            ? { ...m, isThinking: false, content: `I couldn't answer that: ${event.error}` }
+            : m
+        ));
+        break;
+      case 'cancelled':
+        setMessages(prev => prev.map(m => m.id === thinkingIdRef.current ? { ...m, isThinking: false } : m));
+        addMessage(state.artifact.phase === 'cancelled'
+          ? "Run stopped. You can resume it from the artifact header or start a new topic."
+          : "Run stopped. Enter a topic to start again.");
+        break;
+    }
+  }), [orchestrator]);
+
   // --- PHASE 1: PLAN ---
-  const handleInitialRequest = async () => {
-    if (!input.trim()) return;
-    const topic = input;
+  const handleInitialRequest = () => {
+    const comparison = comparisonDraft
+      ? { entities: parseList(comparisonDraft.entities), criteria: parseList(comparisonDraft.criteria) }
+      : undefined;
+    if (comparison ? !isValidComparison(comparison) : !input.trim()) return;
+    const topic = input.trim() || comparisonTopic(comparison!);
     setInput('');
+    setComparisonDraft(null);
+    setOpenFindingId(null);
 
-    // 1. Add User Message
-    const userMsg: Message = {
+    // Every topic gets its own session; the previous one stays in the history
+    setReadOnly(false);
+    setActiveSession({ id: `session-${Date.now()}`, title: topic, createdAt: Date.now() });
+    setMessages([welcomeMessage(), {
       id: Date.now().toString(),
       role: 'user',
       content: topic,
       timestamp: Date.now()
-    };
-    setMessages(prev => [...prev, userMsg]);
-
-    // 2. Set Phase to Planning
-    setArtifact({
-        title: topic,
-        content: '',
-        phase: 'planning',
-        sources: []
-    });
+    }]);
+
+    orchestrator.start(topic, comparison);
+  };
+
+  // In comparison mode the topic is optional, so the form decides whether a run can start
+  const openFinding = openFindingId ? currentPlan?.steps.find(s => s.id === openFindingId) : undefined;
+
+  const comparisonReady = !!comparisonDraft
+    && isValidComparison({ entities: parseList(comparisonDraft.entities), criteria: parseList(comparisonDraft.criteria) });
+
+  // --- PHASE 2 & 3: RESEARCH + REPORT ---
+  const handlePlanApproval = (approvedPlan: ResearchPlan) => {
+    orchestrator.approve(approvedPlan);
+  };
+
+  const handlePlanRevision = (revision: PlanRevision) => {
+    orchestrator.revisePlan(revision);
+  };
 
-    const thinkingId = (Date.now() + 1).toString();
+  // Only the newest draft can be reviewed; earlier ones were superseded by a revision
+  const latestPlanMessageId = [...messages].reverse().find(m => m.plan)?.id;
+
+  // --- FOLLOW-UP Q&A ---
+  // Earlier answered follow-ups give the Answerer conversational context
+  const followUpHistory = (log: Message[]): FollowUpExchange[] => log
+    .filter(m => m.followUp)
+    .map(m => ({ question: m.followUp!.question, answer: m.content }));
+
+  const handleFollowUp = () => {
+    if (!input.trim() || run.answering) return;
+    const question = input;
+    setInput('');
+    const history = followUpHistory(messages);
     setMessages(prev => [...prev, {
-      id: thinkingId,
-      role: 'model',
-      content: `Coordinator: Activating Planner agent for "${topic}"...`,
-      timestamp: Date.now(),
-      isThinking: true
+      id: Date.now().toString(),
+      role: 'user',
+      content: question,
+      timestamp: Date.now()
     }]);
+    orchestrator.ask(question, history);
+  };
 
-    try {
-       const plan = await createResearchPlan(topic);
-       setCurrentPlan(plan);
-       
-       // Update Message to show Plan Review UI
-       setMessages(prev => prev.map(m => 
-         m.id === thinkingId 
-           ? { 
-               ...m, 
-               isThinking: false, 
-               content: `Planner: I've outlined a strategy. Please review it below.`, 
-               plan: plan // Triggers PlanReview component in render
-             }
-           : m
-       ));
-       setArtifact(prev => ({ ...prev, phase: 'reviewing' }));
+  const handleResearchQuestion = (message: Message) => {
+    if (readOnly || !message.followUp?.suggestedQuery) return;
+    const { question, suggestedQuery } = message.followUp;
+    // Context is everything before the answer being researched
+    const history = followUpHistory(messages.slice(0, messages.findIndex(m => m.id === message.id)));
+    setMessages(prev => prev.map(m =>
+      m.id === message.id && m.followUp ? { ...m, followUp: { ...m.followUp, researched: true } } : m
+    ));
+    orchestrator.researchQuestion(question, suggestedQuery, history);
+  };
 
-    } catch (e) {
-        console.error(e);
-        setMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            role: 'model',
-            content: "Planner failed to generate a plan. Please try again.",
-            timestamp: Date.now()
-        }]);
-        setArtifact(prev => ({ ...prev, phase: 'idle' }));
+  // Leaves the current report in the history and returns to the empty start screen
+  const handleNewTopic = () => {
+    setOpenFindingId(null);
+    setActiveSession(null);
+    setReadOnly(false);
+    setMessages([welcomeMessage()]);
+    orchestrator.restore(initialRunState);
+  };
+
+  const handleSend = () => {
+    if (canAsk) {
+      handleFollowUp();
+    } else if (canStartNew) {
+      handleInitialRequest();
     }
   };
 
-  // --- PHASE 2: EXECUTE RESEARCH (Loop) ---
-  const handlePlanApproval = async (approvedPlan: ResearchPlan) => {
-      setCurrentPlan(approvedPlan);
-      
-      // Notify user
-      setMessages(prev => [...prev, {
-          id: Date.now().toString(),
-          role: 'model',
-          content: "Plan approved. Deploying Researcher agent now. Check the sidebar for live progress.",
-          timestamp: Date.now()
-      }]);
+  // --- HISTORY ---
+  const handleOpenSession = (session: ResearchSession) => {
+    if (session.id === activeSession?.id) return;
+    setOpenFindingId(null);
+    const active = { id: session.id, title: session.title, createdAt: session.createdAt, completedAt: session.completedAt };
+    orchestrator.restore({
+      artifact: session.artifact, plan: session.plan, documents: session.documents, sourcePolicy: session.sourcePolicy,
+      settings: session.settings, usage: session.usage, verification: session.verification,
+      revisions: session.revisions, graph: session.graph, trace: session.trace
+    });
+    // Just opening a session is not an edit, so don't bump its updatedAt
+    lastSavedRef.current = [orchestrator.getState(), session.messages, active];
+    setReadOnly(false);
+    setActiveSession(active);
+    setMessages(session.messages);
+  };
 
-      setArtifact(prev => ({ ...prev, phase: 'researching' }));
+  const handleRenameSession = (id: string, title: string) => {
+    if (id === activeSession?.id) {
+      // The autosave picks up the new title
+      setActiveSession(prev => prev && { ...prev, title });
+      return;
+    }
+    renameSession(id, title)
+      .then(renamed => renamed && setSessions(prev => prev.map(s => s.id === id ? renamed : s)))
+      .catch(e => console.error("Failed to rename session", e));
+  };
 
-      // Execute Steps Sequentially
-      const completedSteps: ResearchStep[] = [];
-      
-      for (const step of approvedPlan.steps) {
-          // Highlight current step in Artifact UI
-          setArtifact(prev => ({ ...prev, currentStepId: step.id }));
-
-          // Call Researcher Agent
-          const result = await executeResearchStep(step);
-          
-          // Update step with result
-          const completedStep = { ...step, status: 'completed' as const, ...result };
-          completedSteps.push(completedStep);
-
-          // Update Artifact State (Accumulate Sources)
-          setArtifact(prev => {
-             const existingUrls = new Set(prev.sources.map(s => s.uri));
-             const uniqueNew = (result.sources || []).filter(s => !existingUrls.has(s.uri));
-             return {
-                 ...prev,
-                 sources: [...prev.sources, ...uniqueNew]
-             };
-          });
-
-          // Small delay for UX pace
-          await new Promise(r => setTimeout(r, 500));
+  const handleDeleteSession = (id: string) => {
+    deleteSession(id)
+      .then(() => setSessions(prev => prev.filter(s => s.id !== id)))
+      .catch(e => console.error("Failed to delete session", e));
+    if (id === activeSession?.id) {
+      setActiveSession(null);
+      setMessages([welcomeMessage()]);
+      orchestrator.restore(initialRunState);
+    }
+  };
+
+  // --- PRESETS AND TEMPLATES ---
+  const handleSavePreset = (name: string, settings: ResearchSettings) => {
+    savePreset({ id: `preset-${Date.now()}`, name, settings })
+      .then(saved => setPresets(prev => [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))))
+      .catch(e => console.error("Failed to save preset", e));
+  };
+
+  const handleDeletePreset = (id: string) => {
+    deletePreset(id)
+      .then(() => setPresets(prev => prev.filter(p => p.id !== id)))
+      .catch(e => console.error("Failed to delete preset", e));
+  };
+
+  const handleSaveTemplate = (template: ReportTemplate) => {
+    saveTemplate(template)
+      .then(saved => setTemplates(prev => [...prev.filter(t => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))))
+      .catch(e => console.error("Failed to save template", e));
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    deleteTemplate(id)
+      .then(() => setTemplates(prev => prev.filter(t => t.id !== id)))
+      .catch(e => console.error("Failed to delete template", e));
+  };
+
+  // --- MONITORS ---
+  const handleCreateMonitor = () => {
+    if (!currentPlan) return;
+    const monitor = createMonitor(activeSession?.title || artifact.title, run, activeSession?.id);
+    saveMonitor(monitor)
+      .then(saved => setMonitors(prev => [...prev, saved]))
+      .catch(e => console.error("Failed to save monitor", e));
+  };
+
+  const handleScheduleMonitor = (monitor: ResearchMonitor, intervalHours?: number) => {
+    saveMonitor(scheduleMonitor(monitor, intervalHours))
+      .then(saved => setMonitors(prev => prev.map(m => m.id === saved.id ? saved : m)))
+      .catch(e => console.error("Failed to save monitor", e));
+  };
+
+  const handleDeleteMonitor = (monitor: ResearchMonitor) => {
+    deleteMonitor(monitor.id)
+      .then(() => setMonitors(prev => prev.filter(m => m.id !== monitor.id)))
+      .catch(e => console.error("Failed to delete monitor", e));
+  };
+
+  // Each run lands in the history as its own session
+  const handleRunMonitor = async (monitor: ResearchMonitor) => {
+    if (runningMonitorRef.current) return;
+    runningMonitorRef.current = monitor.id;
+    setRunningMonitorId(monitor.id);
+    // The schedule moves on before the run, so a run or save that fails is not retried every minute
+    const scheduled = advanceSchedule(monitor);
+    setMonitors(prev => prev.map(m => m.id === scheduled.id ? scheduled : m));
+    try {
+      await saveMonitor(scheduled);
+      const { monitor: updated, session } = await runMonitor(scheduled);
+      setMonitors(prev => prev.map(m => m.id === updated.id ? updated : m));
+      if (session) {
+        await saveSession(session);
+        setSessions(prev => [session, ...prev]);
       }
+      await saveMonitor(updated);
+    } catch (e) {
+      console.error("Failed to save monitor run", e);
+    } finally {
+      runningMonitorRef.current = null;
+      setRunningMonitorId(null);
+    }
+  };
 
-      // --- PHASE 3: REPORT ---
-      setArtifact(prev => ({ ...prev, phase: 'reporting', currentStepId: undefined }));
-      
-      setMessages(prev => [...prev, {
+  // --- KNOWLEDGE GRAPH ---
+  // Entities link across every saved topic; the active session contributes its live graph
+  const allTopicsGraph = useMemo(
+    () => crossTopicGraph(sessions, activeSession ? { id: activeSession.id, topic: run.plan?.topic || artifact.title, graph: run.graph } : undefined),
+    [sessions, activeSession, run.graph, run.plan, artifact.title]
+  );
+
+  // Opens a session by id, from a monitor run or a graph mention
+  const handleOpenSessionById = (sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (session) handleOpenSession(session);
+  };
+
+  // --- TRACE ---
+  // Carries the topic and configuration so `npm run research -- --replay` can take the same path
+  const handleExportTrace = () => {
+    downloadFile(`${slugify(artifact.title)}.trace.json`, toTraceJson({
+      topic: run.plan?.topic || artifact.title,
+      settings: run.settings,
+      comparison: run.plan?.comparison,
+      deep: run.plan?.deep,
+      entries: run.trace || [],
+    }), 'application/json');
+  };
+
+  // Scheduled monitors run while the app is open; a due one starts within a minute
+  const runMonitorRef = useRef(handleRunMonitor);
+  runMonitorRef.current = handleRunMonitor;
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const due = monitorsRef.current.find(monitor => isDue(monitor));
+      if (due) runMonitorRef.current(due);
+    }, MONITOR_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // --- CITATIONS ---
+  const [highlightedRef, setHighlightedRef] = useState<number | null>(null);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const handleCitationClick = (n: number) => {
+    document.getElementById(`ref-${n}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedRef(n);
+    clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = setTimeout(() => setHighlightedRef(null), 2500);
+  };
+
+  // --- DOCUMENTS ---
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const [isReadingDocuments, setIsReadingDocuments] = useState(false);
+
+  const handleAttachFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsReadingDocuments(true);
+    const results = await Promise.allSettled(files.map(readDocument));
+    setIsReadingDocuments(false);
+
+    orchestrator.addDocuments(results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []));
+    const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+    if (failures.length) {
+      console.error(failures);
+      alert(failures.map(f => f instanceof Error ? f.message : String(f)).join('\n'));
+    }
+  };
+
+  // --- IMPORT ---
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const bundle = parseJsonBundle(await file.text());
+      orchestrator.restore({
+        artifact: { title: bundle.title, content: bundle.report, phase: 'completed', sources: bundle.sources },
+        plan: bundle.plan
+      });
+      setActiveSession(null);
+      setOpenFindingId(null);
+      setReadOnly(true);
+      setMessages([welcomeMessage(), {
         id: Date.now().toString(),
         role: 'model',
-        content: "Research complete. Reporter agent is compiling the final artifact...",
+        content: `Imported "${bundle.title}" (exported ${new Date(bundle.exportedAt).toLocaleString()}). It is read-only; choose New topic to start a new run.`,
         timestamp: Date.now()
-    }]);
-
-      await generateFinalReportStream(
-          approvedPlan.topic,
-          completedSteps,
-          (chunk) => {
-              setArtifact(prev => ({
-                  ...prev,
-                  content: prev.content + chunk
-              }));
-          }
-      );
-
-      setArtifact(prev => ({ ...prev, phase: 'completed' }));
+      }]);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Could not import this file.");
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      if (artifact.phase === 'idle' || artifact.phase === 'completed') {
-          handleInitialRequest();
-      }
+      handleSend();
     }
   };
 
   return (
     <div className="flex h-screen w-full bg-background text-foreground overflow-hidden">
+
+      {/* Far Left: Session History */}
+      {showHistory && (
+        <HistorySidebar
+          sessions={sessions}
+          activeId={activeSession?.id || null}
+          onOpen={handleOpenSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
       
       {/* Left Panel: Chat Interface */}
       <motion.div 
@@ -190,7 +630,94 @@ export default function App() {
         <header className="h-14 flex items-center px-6 border-b border-border bg-background/50 backdrop-blur-md sticky top-0 z-20">
            <SparklesIcon className="w-5 h-5 text-indigo-500 mr-2" />
            <h1 className="font-semibold text-sm tracking-wide">DEEP DIVE AGENT</h1>
+           <div className="ml-auto flex items-center gap-4">
+             {(artifact.phase === 'completed' || artifact.phase === 'cancelled') && (
+               <button
+                 onClick={handleNewTopic}
+                 className="flex items-center gap-1.5 text-xs text-zinc-500 hover:text-white transition-colors"
+               >
+                 <PlusIcon className="w-4 h-4" />
+                 <span>New topic</span>
+               </button>
+             )}
+             {!readOnly && (
+               <button
+                 onClick={() => setShowSourceRules(!showSourceRules)}
+                 className={`flex items-center gap-1.5 text-xs transition-colors ${run.sourcePolicy ? 'text-indigo-400 hover:text-indigo-300' : 'text-zinc-500 hover:text-white'}`}
+               >
+                 <GlobeIcon className="w-4 h-4" />
+                 <span>Sources</span>
+               </button>
+             )}
+             {!readOnly && (
+               <button
+                 onClick={() => setShowSettings(!showSettings)}
+                 className={`flex items-center gap-1.5 text-xs transition-colors ${run.settings ? 'text-indigo-400 hover:text-indigo-300' : 'text-zinc-500 hover:text-white'}`}
+               >
+                 <SettingsIcon className="w-4 h-4" />
+                 <span>Settings</span>
+               </button>
+             )}
+             <button
+               onClick={() => setShowMonitors(!showMonitors)}
+               title="Topics that are researched again on demand or on a schedule"
+               className={`flex items-center gap-1.5 text-xs transition-colors ${runningMonitorId ? 'text-indigo-400 animate-pulse' : 'text-zinc-500 hover:text-white'}`}
+             >
+               <RefreshIcon className="w-4 h-4" />
+               <span>Monitors</span>
+             </button>
+             <button
+               onClick={() => importInputRef.current?.click()}
+               className="flex items-center gap-1.5 text-xs text-zinc-500 hover:text-white transition-colors"
+             >
+               <UploadIcon className="w-4 h-4" />
+               <span>Import</span>
+             </button>
+             <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+             {!showHistory && (
+               <button
+                 onClick={() => setShowHistory(true)}
+                 className="flex items-center gap-1.5 text-xs text-zinc-500 hover:text-white transition-colors"
+               >
+                 <ClockIcon className="w-4 h-4" />
+                 <span>History</span>
+               </button>
+             )}
+           </div>
         </header>
+        {showSourceRules && (
+          <SourcePolicyPanel
+            policy={run.sourcePolicy}
+            onSave={orchestrator.setSourcePolicy}
+            onClose={() => setShowSourceRules(false)}
+          />
+        )}
+        {showMonitors && (
+          <MonitorPanel
+            monitors={monitors}
+            runningId={runningMonitorId}
+            onCreate={artifact.phase === 'completed' && currentPlan && !readOnly ? handleCreateMonitor : undefined}
+            onRun={handleRunMonitor}
+            onSchedule={handleScheduleMonitor}
+            onDelete={handleDeleteMonitor}
+            onOpenSession={handleOpenSessionById}
+            onClose={() => setShowMonitors(false)}
+          />
+        )}
+        {showSettings && (
+          <SettingsPanel
+            settings={run.settings}
+            presets={[...BUILT_IN_PRESETS, ...presets]}
+            defaultModel={getProvider().defaultModel}
+            onSave={orchestrator.setSettings}
+            onSavePreset={handleSavePreset}
+            onDeletePreset={handleDeletePreset}
+            templates={[...BUILT_IN_TEMPLATES, ...templates]}
+            onSaveTemplate={handleSaveTemplate}
+            onDeleteTemplate={handleDeleteTemplate}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
 
         {/* Message List */}
         <div className="flex-1 overflow-y-auto p-4 space-y-6 custom-scrollbar">
@@ -220,13 +747,48 @@ export default function App() {
                              <span>Processing...</span>
                           </div>
                         )}
-                        <div className="text-zinc-300 text-sm leading-relaxed">
-                          {msg.content.replace(/^(Coordinator|Planner): /, '')}
-                        </div>
+                        {msg.followUp ? (
+                          <div className="text-sm">
+                            <MarkdownRenderer
+                                content={msg.content}
+                                citationCount={artifact.sources.length}
+                                onCitationClick={handleCitationClick}
+                            />
+                          </div>
+                        ) : (
+                          <div className="text-zinc-300 text-sm leading-relaxed">
+                            {msg.content.replace(/^(Coordinator|Planner): /, '')}
+                          </div>
+                        )}
+
+                        {/* Offer a targeted search when the notes fall short */}
+                        {msg.followUp?.suggestedQuery && !msg.followUp.researched && canAsk && (
+                            <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-zinc-800 bg-zinc-900/50">
+                              <p className="text-xs text-zinc-400">
+                                The notes don't cover this. Search for "{msg.followUp.suggestedQuery}"?
+                              </p>
+                              <button
+                                onClick={() => handleResearchQuestion(msg)}
+                                disabled={run.answering}
+                                className="shrink-0 flex items-center gap-1 px-2 py-1 rounded border border-zinc-700 text-[11px] text-zinc-300 hover:text-white hover:border-zinc-500 disabled:opacity-40 transition-colors"
+                              >
+                                <SearchIcon className="w-3 h-3" />
+                                <span>Research it</span>
+                              </button>
+                            </div>
+                        )}
                         
                         {/* PLAN REVIEW UI */}
-                        {msg.plan && (
-                            <PlanReview plan={msg.plan} onApprove={handlePlanApproval} />
+                        {msg.plan && msg.id === latestPlanMessageId && (
+                            <PlanReview
+                                plan={msg.plan}
+                                onApprove={handlePlanApproval}
+                                onRevise={artifact.phase === 'reviewing' ? handlePlanRevision : undefined}
+                                isRevising={run.revisingPlan}
+                            />
+                        )}
+                        {msg.plan && msg.id !== latestPlanMessageId && (
+                            <p className="text-[11px] text-zinc-600 italic">Superseded by a revised plan.</p>
                         )}
                       </div>
                     )}
@@ -239,21 +801,43 @@ export default function App() {
 
         {/* Input Area */}
         <div className="p-4 bg-background border-t border-border">
+          <DocumentList documents={run.documents || []} onRemove={readOnly ? undefined : orchestrator.removeDocument} />
+          {canStartNew && comparisonDraft && <ComparisonForm draft={comparisonDraft} onChange={setComparisonDraft} />}
           <div className="relative group">
              <div className="absolute -inset-0.5 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-xl opacity-20 group-hover:opacity-40 transition duration-300 blur"></div>
              <div className="relative flex items-center bg-zinc-900 rounded-xl border border-zinc-800 overflow-hidden">
+              {!readOnly && (
+                <button
+                  onClick={() => documentInputRef.current?.click()}
+                  disabled={isReadingDocuments}
+                  title="Attach documents (text, Markdown, HTML, PDF) to use as sources"
+                  className={`p-2 ml-2 text-zinc-500 hover:text-white disabled:opacity-30 transition-colors ${isReadingDocuments ? 'animate-pulse' : ''}`}
+                >
+                  <PaperclipIcon className="w-4 h-4" />
+                </button>
+              )}
+              {canStartNew && !readOnly && (
+                <button
+                  onClick={() => setComparisonDraft(comparisonDraft ? null : { entities: '', criteria: '' })}
+                  title="Comparison mode: research several entities against the same criteria"
+                  className={`p-2 transition-colors ${comparisonDraft ? 'text-indigo-400' : 'text-zinc-500 hover:text-white'}`}
+                >
+                  <TableIcon className="w-4 h-4" />
+                </button>
+              )}
+              <input ref={documentInputRef} type="file" multiple accept={ACCEPTED_DOCUMENT_TYPES} className="hidden" onChange={handleAttachFiles} />
               <input
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder={artifact.phase === 'idle' || artifact.phase === 'completed' ? "Enter a research topic..." : "Research in progress..."}
-                disabled={artifact.phase !== 'idle' && artifact.phase !== 'completed'}
+                placeholder={canAsk ? "Ask a follow-up about this report..." : canStartNew ? (comparisonDraft ? "Topic (optional)..." : "Enter a research topic...") : readOnly ? "Read-only report" : "Research in progress..."}
+                disabled={!(canAsk || canStartNew) || run.answering}
                 className="flex-1 bg-transparent border-none px-4 py-3.5 text-sm text-zinc-100 focus:outline-none placeholder:text-zinc-600 disabled:opacity-50"
               />
               <button 
-                onClick={handleInitialRequest}
-                disabled={!input.trim() || (artifact.phase !== 'idle' && artifact.phase !== 'completed')}
+                onClick={handleSend}
+                disabled={!(canAsk ? input.trim() : canStartNew && (comparisonDraft ? comparisonReady : input.trim())) || run.answering}
                 className="p-2 mr-2 text-zinc-400 hover:text-white disabled:opacity-30 transition-colors"
               >
                 <SendIcon className="w-5 h-5" />
@@ -283,9 +867,62 @@ export default function App() {
               </div>
               
               <div className="flex items-center space-x-3">
+                  {readOnly && (
+                      <span className="text-[10px] px-2 py-1 rounded uppercase tracking-wider border border-zinc-700 text-zinc-400">
+                          Read-only
+                      </span>
+                  )}
+                  {!!run.usage?.length && (
+                      <UsageBadge usage={run.usage} budget={run.settings?.budget} budgetExceeded={run.budgetExceeded} />
+                  )}
+                  {!!run.trace?.length && (
+                      <button
+                          onClick={() => setShowTrace(!showTrace)}
+                          title="Every agent call of this run, with prompts, responses and failures"
+                          className={`text-[10px] px-2 py-1 rounded uppercase tracking-wider border transition-colors ${
+                              showTrace ? 'border-zinc-600 text-zinc-200' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                          }`}
+                      >
+                          Trace ({run.trace.length})
+                      </button>
+                  )}
+                  {artifact.phase === 'completed' && (
+                      <button
+                          onClick={() => setShowGraph(!showGraph)}
+                          title="Entities and relationships found in the research"
+                          className={`text-[10px] px-2 py-1 rounded uppercase tracking-wider border transition-colors ${
+                              showGraph ? 'border-zinc-600 text-zinc-200' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                          } ${run.extractingGraph ? 'animate-pulse' : ''}`}
+                      >
+                          Graph{run.graph?.entities.length ? ` (${run.graph.entities.length})` : ''}
+                      </button>
+                  )}
+                  {artifact.phase === 'completed' && (
+                      <button
+                          onClick={() => setShowRevisions(!showRevisions)}
+                          title="Rewrite sections and compare versions of the report"
+                          className={`flex items-center gap-1 text-[10px] px-2 py-1 rounded uppercase tracking-wider border transition-colors ${
+                              showRevisions ? 'border-zinc-600 text-zinc-200' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                          }`}
+                      >
+                          <ClockIcon className="w-3 h-3" />
+                          <span>Revisions{run.revisions && run.revisions.length > 1 ? ` (${run.revisions.length})` : ''}</span>
+                      </button>
+                  )}
+                  {artifact.phase === 'completed' && (
+                      <ExportMenu input={{ title: artifact.title, report: artifact.content, plan: currentPlan, sources: artifact.sources }} />
+                  )}
+                  <RunControls
+                      phase={artifact.phase}
+                      onPause={orchestrator.pause}
+                      onResume={orchestrator.resume}
+                      onStop={orchestrator.stop}
+                  />
                   <span className={`text-[10px] px-2 py-1 rounded uppercase tracking-wider border ${
                       artifact.phase === 'completed' 
                         ? 'border-green-900 bg-green-900/20 text-green-400' 
+                        : artifact.phase === 'paused' || artifact.phase === 'cancelled'
+                        ? 'border-amber-900 bg-amber-900/20 text-amber-400'
                         : 'border-indigo-900 bg-indigo-900/20 text-indigo-400'
                   }`}>
                       {artifact.phase}
@@ -297,84 +934,76 @@ export default function App() {
             <div className="flex-1 overflow-y-auto p-8 md:px-12 lg:px-16 custom-scrollbar">
                <div className="max-w-3xl mx-auto">
                    
+                   {/* VIEW 4: TRACE (Toggled from the header whenever calls were recorded) */}
+                   {showTrace && (
+                       <TraceInspector trace={run.trace || []} steps={currentPlan?.steps} onExport={handleExportTrace} />
+                   )}
+
                    {/* VIEW 1: RESEARCH LOG (Visible during researching) */}
-                   {(artifact.phase === 'researching' || artifact.phase === 'reviewing') && currentPlan && (
-                       <div className="space-y-6 animate-in fade-in duration-500">
-                           <h2 className="text-xl font-semibold text-zinc-200 mb-6">Research Protocol</h2>
-                           <div className="space-y-4">
-                               {currentPlan.steps.map((step, idx) => {
-                                   const isCurrent = step.id === artifact.currentStepId;
-                                   const isDone = step.status === 'completed'; // In real app, we need to update status in plan state too, simplified here
-                                   // We can infer status from artifact.currentStepId or local state if we synced them perfectly.
-                                   // For visual simplicity in this specific render cycle:
-                                   const status = artifact.currentStepId === step.id ? 'active' : (artifact.sources.length > idx * 2 ? 'done' : 'pending'); 
-                                   
-                                   return (
-                                       <div key={step.id} className={`p-4 rounded-lg border transition-all duration-300 ${
-                                           isCurrent ? 'bg-indigo-950/30 border-indigo-500/50 shadow-[0_0_15px_rgba(99,102,241,0.1)]' : 
-                                           status === 'done' ? 'bg-zinc-900/30 border-zinc-800 opacity-60' :
-                                           'bg-zinc-900/10 border-zinc-800/50 opacity-40'
-                                       }`}>
-                                           <div className="flex items-start gap-3">
-                                               <div className={`mt-0.5 w-5 h-5 rounded-full flex items-center justify-center text-[10px] border ${
-                                                   isCurrent ? 'border-indigo-400 text-indigo-400' : 
-                                                   status === 'done' ? 'bg-green-900 border-green-700 text-green-400' :
-                                                   'border-zinc-700 text-zinc-600'
-                                               }`}>
-                                                   {status === 'done' ? <CheckIcon className="w-3 h-3" /> : (idx + 1)}
-                                               </div>
-                                               <div>
-                                                   <p className={`text-sm font-medium ${isCurrent ? 'text-indigo-200' : 'text-zinc-300'}`}>
-                                                       {step.query}
-                                                   </p>
-                                                   {isCurrent && (
-                                                       <div className="flex items-center gap-2 mt-2 text-xs text-indigo-400">
-                                                           <GlobeIcon className="w-3 h-3 animate-spin" />
-                                                           <span>Browsing sources...</span>
-                                                       </div>
-                                                   )}
-                                               </div>
-                                           </div>
-                                       </div>
-                                   );
-                               })}
-                           </div>
-                       </div>
+                   {!showTrace && ['reviewing', 'researching', 'paused', 'cancelled'].includes(artifact.phase) && currentPlan && (
+                       <ResearchProtocol
+                           plan={currentPlan}
+                           analyzingRound={run.analyzingRound}
+                           onRetryStep={artifact.phase === 'researching' ? orchestrator.retryStep : undefined}
+                           onReleaseStep={artifact.phase === 'researching' ? orchestrator.releaseStep : undefined}
+                           onContinue={artifact.phase === 'researching' ? orchestrator.continueWithoutFailed : undefined}
+                       />
+                   )}
+
+                   {/* VIEW 3: KNOWLEDGE GRAPH (Toggled from the header once completed) */}
+                   {!showTrace && artifact.phase === 'completed' && showGraph && (
+                       <KnowledgeGraphView
+                           graph={run.graph}
+                           crossTopicGraph={allTopicsGraph}
+                           activeSessionId={activeSession?.id}
+                           extracting={run.extractingGraph}
+                           onExtract={readOnly ? undefined : orchestrator.extractGraph}
+                           onOpenSession={handleOpenSessionById}
+                       />
                    )}
 
                    {/* VIEW 2: FINAL REPORT (Visible during reporting/completed) */}
-                   {(artifact.phase === 'reporting' || artifact.phase === 'completed') && (
+                   {!showTrace && (artifact.phase === 'reporting' || (artifact.phase === 'completed' && !showGraph)) && (
                        <div className="animate-in fade-in slide-in-from-bottom-4 duration-700">
-                            <SimpleMarkdown 
+                            <MarkdownRenderer 
                                 content={artifact.content} 
                                 isStreaming={artifact.phase === 'reporting'}
+                                citationCount={artifact.sources.length}
+                                onCitationClick={handleCitationClick}
+                                flaggedClaims={flaggedClaims}
+                                onFindingClick={setOpenFindingId}
+                            />
+                            <VerificationPanel
+                                verification={run.verification}
+                                verifying={run.verifying}
+                                revising={run.revisingClaims}
+                                steps={currentPlan?.steps || []}
+                                onRevise={canRevise ? orchestrator.reviseClaims : undefined}
                             />
+                            {showRevisions && artifact.phase === 'completed' && (
+                                <RevisionPanel
+                                    content={artifact.content}
+                                    revisions={run.revisions || []}
+                                    rewritingSection={run.rewritingSection}
+                                    onRewrite={canRevise ? orchestrator.reviseSection : undefined}
+                                    onRestore={canRevise ? orchestrator.restoreRevision : undefined}
+                                />
+                            )}
                        </div>
                    )}
                    
+                   {openFinding && (
+                       <FindingCard
+                           step={openFinding}
+                           sources={artifact.sources}
+                           onCitationClick={handleCitationClick}
+                           onClose={() => setOpenFindingId(null)}
+                       />
+                   )}
+
                    {/* Sources Footer */}
                    {artifact.sources.length > 0 && (artifact.phase === 'reporting' || artifact.phase === 'completed') && (
-                       <motion.div 
-                         initial={{ opacity: 0 }}
-                         animate={{ opacity: 1 }}
-                         className="mt-12 pt-8 border-t border-zinc-800"
-                       >
-                           <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-4">References</h3>
-                           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                               {artifact.sources.map((source, idx) => (
-                                   <a 
-                                     key={idx} 
-                                     href={source.uri} 
-                                     target="_blank" 
-                                     rel="noreferrer"
-                                     className="block p-3 rounded border border-zinc-800 bg-zinc-900/30 hover:bg-zinc-800 transition text-xs text-zinc-400 hover:text-indigo-400 truncate group"
-                                   >
-                                       <div className="font-medium truncate text-zinc-300 group-hover:text-indigo-300">{source.title}</div>
-                                       <div className="text-[10px] text-zinc-600 mt-1 truncate">{source.uri}</div>
-                                   </a>
-                               ))}
-                           </div>
-                       </motion.div>
+                       <ReferenceList sources={artifact.sources} highlighted={highlightedRef} />
                    )}
                    
                    <div className="h-20" /> 
@@ -0,0 +1,409 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import { parseArgs } from 'node:util';
+import { ComparisonSpec, DeepResearchConfig, ResearchPlan, ResearchSettings } from '../types';
+import { createResearchOrchestrator, DEFAULT_CONCURRENCY, DEFAULT_DEEP_RESEARCH, hasBlockingFailures, ResearchOrchestrator } from '../services/orchestrator';
+import { comparisonTopic, isValidComparison, MAX_COMPARISON_CELLS, parseList } from '../services/comparison';
+import { slugify, toJsonBundle, toMarkdown } from '../services/exporters';
+import { setProvider } from '../services/providers';
+import { normalizeSettings } from '../services/settings';
+import { BUILT_IN_TEMPLATES } from '../services/templates';
+import { createReplayProvider, parseTrace, toTraceJson } from '../services/trace';
+import { formatCost, formatTokens, summarizeUsage } from '../services/usage';
+
+// --- HEADLESS RUNNER ---
+// Drives the same coordinator as the UI from the terminal: plan, (review,) research, report, write to disk.
+// Progress goes to stderr so the report can be piped from stdout with --stream.
+
+const USAGE = `Usage: npm run research -- [options] "<topic>"
+
+Options:
+  -b, --batch <file>        Research every topic in a file (one per line, # for comments)
+  -p, --plan <file>         Skip planning and use a plan from JSON (a plan or an exported bundle)
+  -y, --yes                 Approve plans without asking
+  -o, --out <dir>           Output directory (default: research-output)
+      --provider <id>       Model provider: gemini, openai or mock (default: MODEL_PROVIDER)
+      --settings <file>     Research settings or a saved preset as JSON
+      --template <id>       Report template, e.g. swot or executive-brief
+      --deep                Deep research mode with Analyst follow-up rounds
+      --compare <list>      Comparison mode: comma-separated entities; the topic becomes optional
+      --criteria <list>     Comma-separated criteria to compare the entities on
+      --concurrency <n>     Research steps in flight at once (default: ${DEFAULT_CONCURRENCY})
+      --max-tokens <n>      Token budget per run
+      --max-cost <usd>      Estimated cost budget per run
+      --stream              Echo the report to stdout as it is written
+      --replay <file>       Re-run a recorded trace offline, answering every agent call from it;
+                            topic, settings and comparison default to the recorded ones
+  -h, --help                Show this help
+
+Each topic is written to <out>/<topic-slug>/ as report.md, sources.json, bundle.json
+(importable in the app), verification.json (the fact-check), graph.json (extracted entities
+and relations) and trace.json (every agent call, replayable with --replay). A batch also writes
+summary.json with one line per topic.`;
+
+interface RunOptions {
+  settings: ResearchSettings;
+  plan?: ResearchPlan;
+  comparison?: ComparisonSpec;
+  yes: boolean;
+  deep?: DeepResearchConfig;
+  concurrency: number;
+  stream: boolean;
+}
+
+interface RunSummary {
+  topic: string;
+  status: 'completed' | 'failed';
+  dir?: string;
+  steps?: number;
+  failedSteps?: number;
+  sources?: number;
+  tokens?: number;
+  cost?: number;
+  error?: string;
+}
+
+const log = (line: string) => process.stderr.write(`${line}\n`);
+
+// Interactive prompts are opened lazily so piped and --yes runs never touch stdin
+let prompt: ReturnType<typeof createInterface> | null = null;
+const ask = (question: string) => {
+  prompt ??= createInterface({ input: process.stdin, output: process.stderr });
+  return prompt.question(question);
+};
+
+// --- INPUTS ---
+const readTopics = async (file: string) =>
+  (await readFile(file, 'utf8'))
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+// Accepts a ResearchPlan, an exported bundle or { topic, steps: ["query", ...] }. Earlier results are dropped.
+const loadPlan = async (file: string): Promise<ResearchPlan> => {
+  const data = JSON.parse(await readFile(file, 'utf8'));
+  const plan = data?.format === 'deepdive-bundle' ? data.plan : data;
+  if (typeof plan?.topic !== 'string' || !Array.isArray(plan.steps) || plan.steps.length === 0) {
+    throw new Error(`${file} does not contain a research plan.`);
+  }
+  return {
+    topic: plan.topic,
+    deep: plan.deep,
+    comparison: plan.comparison,
+    steps: plan.steps.map((step: any, i: number) => typeof step === 'string'
+      ? { id: `step-${i}`, query: step, status: 'pending' }
+      : { id: step.id || `step-${i}`, query: step.query, status: 'pending', notes: step.notes, optional: step.optional, round: step.round, parentId: step.parentId, rationale: step.rationale, cell: step.cell })
+  };
+};
+
+const loadSettings = async (file?: string): Promise<ResearchSettings> => {
+  if (!file) return normalizeSettings();
+  const data = JSON.parse(await readFile(file, 'utf8'));
+  // A preset wraps the settings
+  return normalizeSettings(data?.settings && !data.models ? data.settings : data);
+};
+
+const findTemplate = (id: string) => {
+  const template = BUILT_IN_TEMPLATES.find(t => t.id === id || t.id === `builtin-${id}`);
+  if (!template) {
+    throw new Error(`Unknown template "${id}". Available: ${BUILT_IN_TEMPLATES.map(t => t.id.replace(/^builtin-/, '')).join(', ')}`);
+  }
+  return template;
+};
+
+// --- PROGRESS ---
+const reportProgress = (orchestrator: ResearchOrchestrator, stream: boolean) => orchestrator.subscribe((event, state) => {
+  const steps = state.plan?.steps || [];
+  const label = (stepId: string) => {
+    const index = steps.findIndex(s => s.id === stepId);
+    return `[${index + 1}/${steps.length}] ${steps[index]?.query}`;
+  };
+
+  switch (event.type) {
+    case 'planning-started':
+      log(`Planning "${event.topic}"...`);
+      break;
+    case 'plan-revision-started':
+      log('Revising the plan...');
+      break;
+    case 'step-started':
+      log(`  → ${label(event.stepId)}`);
+      break;
+    case 'step-retrying':
+      log(`  ↻ ${label(event.stepId)} (attempt ${event.attempt} failed: ${event.error})`);
+      break;
+    case 'step-finished':
+      log(`  ✓ ${label(event.step.id)} · ${event.step.sources?.length || 0} sources`);
+      break;
+    case 'step-failed':
+      log(`  ✗ ${label(event.stepId)}: ${event.error}`);
+      break;
+    case 'step-quarantined':
+      log(`  ⚠ ${label(event.step.id)}: ${event.step.error}`);
+      event.step.quarantine?.forEach(flag => log(`      "${flag.excerpt}"`));
+      break;
+    case 'analysis-started':
+      log(`Analyst reviewing findings for round ${event.round}...`);
+      break;
+    case 'round-planned':
+      log(event.steps.length ? `Round ${event.round}: ${event.steps.length} follow-up steps` : 'Analyst found no open questions.');
+      break;
+    case 'budget-exceeded':
+      log('Budget reached; skipping the remaining steps.');
+      break;
+    case 'report-started':
+      log('Writing the report...');
+      break;
+    case 'verification-started':
+      log('Fact-checking the report...');
+      break;
+    case 'verification-ready': {
+      const flagged = event.verification.claims.filter(c => c.verdict !== 'supported').length;
+      log(`${event.verification.claims.length} claims checked, ${flagged} flagged.`);
+      break;
+    }
+    case 'graph-extracted':
+      log(`Extractor found ${event.graph.entities.length} entities and ${event.graph.relations.length} relations.`);
+      break;
+    case 'report-chunk':
+      if (stream) process.stdout.write(event.text);
+      break;
+    case 'done':
+      if (stream) process.stdout.write('\n');
+      break;
+  }
+});
+
+const printPlan = (plan: ResearchPlan) => {
+  log(`\nPlan for "${plan.topic}":`);
+  plan.steps.forEach((step, i) => log(`  ${i + 1}. ${step.cell ? `[${step.cell.entity} × ${step.cell.criterion}] ` : ''}${step.query}${step.optional ? ' (optional)' : ''}${step.notes ? `\n     Note: ${step.notes}` : ''}`));
+};
+
+// Loops until the user approves (empty answer or "y") or declines ("n"). Anything else is revision feedback.
+const reviewPlan = async (orchestrator: ResearchOrchestrator): Promise<ResearchPlan | null> => {
+  while (true) {
+    const plan = orchestrator.getState().plan!;
+    printPlan(plan);
+    const answer = (await ask('\nApprove? [Y]es / [n]o / or type feedback to revise: ')).trim();
+    if (!answer || /^y(es)?$/i.test(answer)) return plan;
+    if (/^no?$/i.test(answer)) return null;
+    await orchestrator.revisePlan({ feedback: answer, steps: plan.steps });
+    const { error } = orchestrator.getState();
+    if (error) log(`Revision failed: ${error}`);
+  }
+};
+
+// --- RUN ---
+const runTopic = async (topic: string, options: RunOptions): Promise<ReturnType<ResearchOrchestrator['getState']>> => {
+  const orchestrator = createResearchOrchestrator({ concurrency: options.concurrency });
+  const unsubscribe = reportProgress(orchestrator, options.stream);
+  const stop = () => orchestrator.stop();
+  process.once('SIGINT', stop);
+
+  try {
+    if (options.plan) {
+      orchestrator.restore({
+        artifact: { title: options.plan.topic, content: '', phase: 'reviewing', sources: [] },
+        plan: options.plan,
+        settings: options.settings
+      });
+    } else {
+      orchestrator.setSettings(options.settings);
+      await orchestrator.start(topic, options.comparison);
+      if (orchestrator.getState().artifact.phase !== 'reviewing') {
+        throw new Error(orchestrator.getState().error || 'Planning failed.');
+      }
+    }
+
+    let plan = orchestrator.getState().plan!;
+    if (options.yes) {
+      printPlan(plan);
+    } else {
+      const approved = await reviewPlan(orchestrator);
+      if (!approved) throw new Error('Plan declined.');
+      plan = approved;
+    }
+
+    await orchestrator.approve(options.deep ? { ...plan, deep: plan.deep || options.deep } : plan);
+
+    // The UI waits for the user when required steps fail; here we report on what succeeded
+    if (hasBlockingFailures(orchestrator.getState().plan) && orchestrator.getState().artifact.phase === 'researching') {
+      log('Some steps failed after retries; writing the report without them.');
+      await orchestrator.continueWithoutFailed();
+    }
+
+    const state = orchestrator.getState();
+    if (state.artifact.phase !== 'completed' || state.error) {
+      throw new Error(state.error || `Run ended while ${state.artifact.phase}.`);
+    }
+    return state;
+  } finally {
+    process.off('SIGINT', stop);
+    unsubscribe();
+  }
+};
+
+// Never overwrites the output of an earlier topic in the same batch
+const outputDir = (root: string, topic: string, used: Set<string>) => {
+  const base = slugify(topic);
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+  used.add(name);
+  return path.join(root, name);
+};
+
+const writeRun = async (dir: string, state: ReturnType<ResearchOrchestrator['getState']>) => {
+  const input = { title: state.artifact.title, report: state.artifact.content, plan: state.plan, sources: state.artifact.sources };
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, 'report.md'), toMarkdown(input));
+  await writeFile(path.join(dir, 'sources.json'), JSON.stringify(state.artifact.sources, null, 2));
+  await writeFile(path.join(dir, 'bundle.json'), toJsonBundle(input));
+  if (state.verification) await writeFile(path.join(dir, 'verification.json'), JSON.stringify(state.verification, null, 2));
+  if (state.graph) await writeFile(path.join(dir, 'graph.json'), JSON.stringify(state.graph, null, 2));
+  if (state.trace?.length) {
+    await writeFile(path.join(dir, 'trace.json'), toTraceJson({
+      topic: state.plan?.topic || state.artifact.title,
+      settings: state.settings,
+      comparison: state.plan?.comparison,
+      deep: state.plan?.deep,
+      entries: state.trace,
+    }));
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      batch: { type: 'string', short: 'b' },
+      plan: { type: 'string', short: 'p' },
+      yes: { type: 'boolean', short: 'y', default: false },
+      out: { type: 'string', short: 'o', default: 'research-output' },
+      provider: { type: 'string' },
+      settings: { type: 'string' },
+      template: { type: 'string' },
+      deep: { type: 'boolean', default: false },
+      compare: { type: 'string' },
+      criteria: { type: 'string' },
+      concurrency: { type: 'string' },
+      'max-tokens': { type: 'string' },
+      'max-cost': { type: 'string' },
+      stream: { type: 'boolean', default: false },
+      replay: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Same variables the Vite build injects for the app
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+  process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+  if (values.provider) process.env.MODEL_PROVIDER = values.provider;
+
+  // A replay answers from the recorded calls, so it needs no provider and takes the recorded path by default
+  const trace = values.replay ? parseTrace(await readFile(values.replay, 'utf8')) : undefined;
+  if (trace) setProvider(createReplayProvider(trace));
+
+  const comparison = values.compare ? { entities: parseList(values.compare), criteria: parseList(values.criteria || '') }
+    : !positionals.length ? trace?.comparison
+    : undefined;
+  if (comparison && !isValidComparison(comparison)) {
+    log(`--compare needs at least two entities and --criteria at least one, with at most ${MAX_COMPARISON_CELLS} pairs.`);
+    return 2;
+  }
+
+  const plan = values.plan ? await loadPlan(values.plan) : undefined;
+  const topics = values.batch ? await readTopics(values.batch)
+    : plan ? [plan.topic]
+    : comparison && !positionals.length ? [trace?.topic || comparisonTopic(comparison)]
+    : positionals.length ? positionals.slice(0, 1)
+    : trace ? [trace.topic]
+    : [];
+  if (values.batch && plan) {
+    log('--batch and --plan cannot be combined.');
+    return 2;
+  }
+  if (comparison && (values.batch || plan)) {
+    log('--compare cannot be combined with --batch or --plan.');
+    return 2;
+  }
+  if (trace && values.batch) {
+    log('--replay cannot be combined with --batch.');
+    return 2;
+  }
+  if (topics.length === 0) {
+    log(USAGE);
+    return 2;
+  }
+
+  const settings = !values.settings && trace?.settings ? normalizeSettings(trace.settings) : await loadSettings(values.settings);
+  if (values.template) settings.template = findTemplate(values.template);
+  if (values['max-tokens'] || values['max-cost']) {
+    Object.assign(settings, normalizeSettings({
+      ...settings,
+      budget: {
+        maxTokens: Number(values['max-tokens']) || settings.budget?.maxTokens,
+        maxCost: Number(values['max-cost']) || settings.budget?.maxCost
+      }
+    }));
+  }
+
+  const options: RunOptions = {
+    settings,
+    plan,
+    comparison,
+    yes: values.yes,
+    deep: trace?.deep || (values.deep ? DEFAULT_DEEP_RESEARCH : undefined),
+    concurrency: Number(values.concurrency) || DEFAULT_CONCURRENCY,
+    stream: values.stream,
+  };
+
+  const used = new Set<string>();
+  const summaries: RunSummary[] = [];
+  for (const topic of topics) {
+    if (topics.length > 1) log(`\n=== ${topic} ===`);
+    try {
+      const state = await runTopic(topic, options);
+      const dir = outputDir(values.out, topic, used);
+      await writeRun(dir, state);
+      const usage = summarizeUsage(state.usage);
+      const steps = state.plan?.steps || [];
+      summaries.push({
+        topic,
+        status: 'completed',
+        dir,
+        steps: steps.length,
+        failedSteps: steps.filter(s => s.status === 'failed').length,
+        sources: state.artifact.sources.length,
+        tokens: usage.totalTokens,
+        cost: usage.cost
+      });
+      log(`Saved to ${dir} · ${formatTokens(usage.totalTokens)} tokens · ${formatCost(usage.cost)}`);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      summaries.push({ topic, status: 'failed', error });
+      log(`Failed: ${error}`);
+    }
+  }
+
+  if (values.batch) {
+    await mkdir(values.out, { recursive: true });
+    await writeFile(path.join(values.out, 'summary.json'), JSON.stringify(summaries, null, 2));
+    log(`\n${summaries.filter(s => s.status === 'completed').length}/${summaries.length} topics completed. Summary in ${path.join(values.out, 'summary.json')}`);
+  }
+  return summaries.every(s => s.status === 'completed') ? 0 : 1;
+};
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(e => {
+    log(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+  })
+  .finally(() => prompt?.close());
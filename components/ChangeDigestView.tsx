@@ -0,0 +1,49 @@
+import React from 'react';
+import { ChangeDigest, Source } from '../types';
+
+interface Props {
+  digest: ChangeDigest;
+}
+
+const SourceItems = ({ sources }: { sources: Source[] }) => (
+  <>
+    {sources.map(source => (
+      <li key={source.uri} className="truncate">
+        {/^https?:\/\//i.test(source.uri)
+          ? <a href={source.uri} target="_blank" rel="noreferrer noopener" className="text-indigo-400 hover:text-indigo-300">{source.title}</a>
+          : source.title}
+      </li>
+    ))}
+  </>
+);
+
+// "What changed" between two runs of a monitor. Empty groups are left out.
+export default function ChangeDigestView({ digest }: Props) {
+  const groups: { title: string; count: number; items: React.ReactNode }[] = [
+    {
+      title: 'Changed figures',
+      count: digest.changedFigures.length,
+      items: digest.changedFigures.map((figure, i) => (
+        <li key={i}>
+          {figure.description}: <span className="text-red-300/80 line-through">{figure.before}</span> → <span className="text-green-300">{figure.after}</span>
+        </li>
+      )),
+    },
+    { title: 'Resolved questions', count: digest.resolvedQuestions.length, items: digest.resolvedQuestions.map((q, i) => <li key={i}>{q}</li>) },
+    { title: 'New developments', count: digest.newDevelopments.length, items: digest.newDevelopments.map((d, i) => <li key={i}>{d}</li>) },
+    { title: 'New sources', count: digest.newSources.length, items: <SourceItems sources={digest.newSources} /> },
+    { title: 'No longer cited', count: digest.droppedSources.length, items: <SourceItems sources={digest.droppedSources} /> },
+  ];
+
+  return (
+    <div className="space-y-2 text-[11px]">
+      <p className="text-zinc-300">{digest.summary}</p>
+      {groups.filter(group => group.count > 0).map(group => (
+        <div key={group.title}>
+          <h5 className="text-zinc-500 uppercase tracking-wider text-[10px]">{group.title} · {group.count}</h5>
+          <ul className="mt-1 ml-4 list-disc marker:text-zinc-600 space-y-0.5 text-zinc-400">{group.items}</ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { comparisonSize, isValidComparison, MAX_COMPARISON_CELLS, parseList } from '../services/comparison';
+
+export interface ComparisonDraft {
+  entities: string;
+  criteria: string;
+}
+
+interface Props {
+  draft: ComparisonDraft;
+  onChange: (draft: ComparisonDraft) => void;
+}
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-1.5 text-xs text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-zinc-600';
+
+// Entities and criteria for comparison mode, shown above the chat input. The topic is optional in this mode.
+export default function ComparisonForm({ draft, onChange }: Props) {
+  const spec = { entities: parseList(draft.entities), criteria: parseList(draft.criteria) };
+  const size = comparisonSize(spec);
+
+  return (
+    <div className="mb-3 p-3 rounded-lg border border-indigo-900/60 bg-indigo-950/10 space-y-2">
+      <input
+        value={draft.entities}
+        onChange={e => onChange({ ...draft, entities: e.target.value })}
+        placeholder="Compare: e.g. PostgreSQL, MySQL, SQLite"
+        className={inputClass}
+      />
+      <input
+        value={draft.criteria}
+        onChange={e => onChange({ ...draft, criteria: e.target.value })}
+        placeholder="Criteria: e.g. performance, licensing, tooling"
+        className={inputClass}
+      />
+      <p className={`text-[11px] ${size > MAX_COMPARISON_CELLS ? 'text-amber-400' : 'text-zinc-500'}`}>
+        {isValidComparison(spec)
+          ? `${spec.entities.length} × ${spec.criteria.length} = ${size} research steps.`
+          : size > MAX_COMPARISON_CELLS
+          ? `${size} steps is too many; keep it to ${MAX_COMPARISON_CELLS}.`
+          : 'List at least two entities and one criterion, separated by commas.'}
+      </p>
+    </div>
+  );
+}
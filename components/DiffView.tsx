@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { DiffRow, diffLines } from '../services/revisions';
+
+interface Props {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const ROW_STYLES: Record<DiffRow['kind'], { left: string; right: string }> = {
+  same: { left: 'text-zinc-500', right: 'text-zinc-500' },
+  removed: { left: 'bg-red-950/40 text-red-300', right: 'bg-zinc-900/40' },
+  added: { left: 'bg-zinc-900/40', right: 'bg-green-950/40 text-green-300' },
+  changed: { left: 'bg-red-950/40 text-red-300', right: 'bg-green-950/40 text-green-300' },
+};
+
+// Side-by-side line diff of two report revisions, in markdown source
+export default function DiffView({ before, after, beforeLabel, afterLabel }: Props) {
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const changes = rows.filter(r => r.kind !== 'same').length;
+
+  return (
+    <div className="rounded-lg border border-zinc-800 overflow-hidden">
+      <div className="grid grid-cols-2 text-[11px] font-medium text-zinc-400 border-b border-zinc-800 bg-zinc-900/60">
+        <div className="px-3 py-2 truncate">{beforeLabel}</div>
+        <div className="px-3 py-2 truncate border-l border-zinc-800">{afterLabel}</div>
+      </div>
+      {changes === 0 ? (
+        <p className="px-3 py-4 text-xs text-zinc-500">These revisions are identical.</p>
+      ) : (
+        <div className="max-h-[28rem] overflow-auto custom-scrollbar">
+          <table className="w-full table-fixed font-mono text-[11px] leading-relaxed">
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i} className="align-top">
+                  <td className={`w-8 px-1 text-right select-none text-zinc-700 ${ROW_STYLES[row.kind].left}`}>{row.left?.line}</td>
+                  <td className={`px-2 whitespace-pre-wrap break-words ${ROW_STYLES[row.kind].left}`}>{row.left?.text}</td>
+                  <td className={`w-8 px-1 text-right select-none text-zinc-700 border-l border-zinc-800 ${ROW_STYLES[row.kind].right}`}>{row.right?.line}</td>
+                  <td className={`px-2 whitespace-pre-wrap break-words ${ROW_STYLES[row.kind].right}`}>{row.right?.text}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
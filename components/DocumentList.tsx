@@ -0,0 +1,41 @@
+import React from 'react';
+import { LocalDocument } from '../types';
+import { FileTextIcon } from './Icons';
+
+interface Props {
+  documents: LocalDocument[];
+  onRemove?: (docId: string) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Files attached to the session, shown as chips above the chat input
+export default function DocumentList({ documents, onRemove }: Props) {
+  if (documents.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-3">
+      {documents.map(doc => (
+        <div
+          key={doc.id}
+          title={`${doc.chunks.length} passages indexed`}
+          className="flex items-center gap-1.5 pl-2 pr-1 py-1 rounded-md border border-emerald-900/60 bg-emerald-950/20 text-[11px] text-emerald-300/90"
+        >
+          <FileTextIcon className="w-3 h-3 shrink-0" />
+          <span className="truncate max-w-[160px]">{doc.name}</span>
+          <span className="text-emerald-300/40">{formatSize(doc.size)}</span>
+          {onRemove && (
+            <button
+              onClick={() => onRemove(doc.id)}
+              aria-label={`Remove ${doc.name}`}
+              className="px-1 text-emerald-300/50 hover:text-red-400 transition-colors"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { downloadFile, ExportInput, openPrintView, slugify, toHtml, toJsonBundle, toMarkdown } from '../services/exporters';
+import { DownloadIcon } from './Icons';
+
+interface Props {
+  input: ExportInput;
+}
+
+export default function ExportMenu({ input }: Props) {
+  const [open, setOpen] = useState(false);
+  const name = slugify(input.title);
+
+  const options = [
+    { label: 'Markdown (.md)', run: () => downloadFile(`${name}.md`, toMarkdown(input), 'text/markdown') },
+    { label: 'Styled HTML (.html)', run: () => downloadFile(`${name}.html`, toHtml(input), 'text/html') },
+    { label: 'Print / Save as PDF', run: () => openPrintView(input) },
+    { label: 'JSON bundle (.json)', run: () => downloadFile(`${name}.deepdive.json`, toJsonBundle(input), 'application/json') },
+  ];
+
+  const handleSelect = (run: () => void) => {
+    setOpen(false);
+    try {
+      run();
+    } catch (e) {
+      console.error("Export failed", e);
+      alert(e instanceof Error ? e.message : "Export failed.");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-800 text-[11px] text-zinc-400 hover:text-white hover:border-zinc-600 transition-colors"
+      >
+        <DownloadIcon className="w-3 h-3" />
+        <span>Export</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-48 rounded-lg border border-zinc-800 bg-zinc-900 shadow-xl py-1 z-30">
+          {options.map(option => (
+            <button
+              key={option.label}
+              onClick={() => handleSelect(option.run)}
+              className="w-full text-left px-3 py-1.5 text-xs text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
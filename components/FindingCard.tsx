@@ -0,0 +1,56 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ResearchStep, Source } from '../types';
+import { citationNumbers, sourceKey } from '../services/sources';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface Props {
+  step: ResearchStep;
+  // The References list, for citation numbers
+  sources: Source[];
+  onCitationClick: (n: number) => void;
+  onClose: () => void;
+}
+
+// The finding behind a comparison matrix cell, with the sources its step found
+export default function FindingCard({ step, sources, onCitationClick, onClose }: Props) {
+  const numbers = citationNumbers(sources);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="fixed bottom-6 right-6 w-[28rem] max-w-[calc(100vw-3rem)] max-h-[60vh] z-30 flex flex-col rounded-lg border border-zinc-700 bg-zinc-900 shadow-2xl"
+    >
+      <div className="flex items-start justify-between gap-3 p-4 border-b border-zinc-800">
+        <div className="min-w-0">
+          {step.cell && (
+            <p className="text-[11px] text-indigo-400">{step.cell.entity} × {step.cell.criterion}</p>
+          )}
+          <p className="text-sm text-zinc-200">{step.query}</p>
+        </div>
+        <button onClick={onClose} aria-label="Close finding" className="shrink-0 px-1 text-zinc-500 hover:text-white transition-colors">
+          ×
+        </button>
+      </div>
+      <div className="p-4 overflow-y-auto custom-scrollbar text-sm space-y-4">
+        <MarkdownRenderer content={step.finding || 'No finding was recorded for this step.'} />
+        {!!step.sources?.length && (
+          <ul className="space-y-1 text-xs">
+            {step.sources.map(source => {
+              const n = numbers.get(sourceKey(source));
+              return (
+                <li key={sourceKey(source)} className="flex gap-2">
+                  {n !== undefined && (
+                    <button onClick={() => onCitationClick(n)} className="shrink-0 font-mono text-indigo-400 hover:text-indigo-300">[{n}]</button>
+                  )}
+                  <span className="truncate text-zinc-400" title={source.uri}>{source.title}</span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ResearchSession } from '../types';
+import { matchesSearch } from '../services/sessionStore';
+import { CheckIcon, EditIcon, PanelLeftClose, SearchIcon, TrashIcon } from './Icons';
+
+interface Props {
+  sessions: ResearchSession[];
+  activeId: string | null;
+  onOpen: (session: ResearchSession) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function HistorySidebar({ sessions, activeId, onOpen, onRename, onDelete, onClose }: Props) {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const visible = sessions.filter(s => matchesSearch(s, query));
+
+  const startRename = (session: ResearchSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-64 shrink-0 h-full flex flex-col border-r border-border bg-zinc-950">
+      <div className="h-14 flex items-center justify-between px-4 border-b border-border">
+        <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">History</h2>
+        <button onClick={onClose} className="p-1 text-zinc-500 hover:text-white transition-colors">
+          <PanelLeftClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-3 border-b border-border">
+        <div className="flex items-center gap-2 bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1.5">
+          <SearchIcon className="w-3.5 h-3.5 text-zinc-600" />
+          <input
+            className="bg-transparent w-full text-xs text-zinc-300 focus:outline-none placeholder:text-zinc-600"
+            placeholder="Search sessions..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+        {visible.length === 0 && (
+          <p className="text-xs text-zinc-600 px-2 py-4 text-center">
+            {sessions.length === 0 ? 'No saved sessions yet.' : 'No sessions match your search.'}
+          </p>
+        )}
+        {visible.map(session => (
+          <div
+            key={session.id}
+            className={`group rounded-md px-2 py-2 cursor-pointer transition-colors ${
+              session.id === activeId ? 'bg-zinc-800/80' : 'hover:bg-zinc-900'
+            }`}
+            onClick={() => editingId !== session.id && onOpen(session)}
+          >
+            {editingId === session.id ? (
+              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                <input
+                  autoFocus
+                  className="flex-1 bg-black/40 border border-zinc-700 rounded px-1.5 py-0.5 text-xs text-zinc-200 focus:outline-none"
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                />
+                <button onClick={commitRename} className="p-1 text-zinc-400 hover:text-green-400">
+                  <CheckIcon className="w-3 h-3" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-start gap-1">
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-zinc-200 truncate">{session.title}</p>
+                  <p className="text-[10px] text-zinc-600 mt-0.5">
+                    {formatDate(session.updatedAt)} · {session.artifact.phase}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); startRename(session); }}
+                  className="p-1 text-zinc-600 hover:text-zinc-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <EditIcon className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
+                  className="p-1 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <TrashIcon className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { EntityType, GraphEntity, GraphMention, KnowledgeGraph, Source } from '../types';
+import { ENTITY_TYPES, largestEntities, layoutGraph } from '../services/graph';
+import { sourceKey } from '../services/sources';
+import { SparklesIcon } from './Icons';
+
+interface Props {
+  // Extracted from this session's findings
+  graph?: KnowledgeGraph;
+  // Merged from every saved session
+  crossTopicGraph: KnowledgeGraph;
+  activeSessionId?: string;
+  extracting?: boolean;
+  // Omitted when extraction can't run (read-only, or the report isn't finished)
+  onExtract?: () => void;
+  onOpenSession: (sessionId: string) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 560;
+// Beyond this the picture is a hairball; the best connected entities are shown
+const MAX_NODES = 120;
+
+const TYPE_COLORS: Record<EntityType, string> = {
+  person: '#f472b6',
+  organization: '#818cf8',
+  product: '#34d399',
+  place: '#fbbf24',
+  date: '#94a3b8',
+  figure: '#22d3ee',
+  concept: '#a78bfa',
+};
+
+const uniqueSources = (mentions: GraphMention[]) =>
+  [...new Map(mentions.flatMap(m => m.sources).map(source => [sourceKey(source), source] as [string, Source])).values()];
+
+// Entities and relationships from the findings as an interactive graph. Click an entity for its mentions,
+// relations and sources; drag to pan and scroll to zoom. "All topics" links entities across sessions.
+export default function KnowledgeGraphView({ graph, crossTopicGraph, activeSessionId, extracting, onExtract, onOpenSession }: Props) {
+  const [scope, setScope] = useState<'report' | 'all'>('report');
+  const [hiddenTypes, setHiddenTypes] = useState<Set<EntityType>>(new Set());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const scoped = scope === 'report' ? graph : crossTopicGraph;
+  const shown = useMemo(() => {
+    if (!scoped) return undefined;
+    const entities = scoped.entities.filter(e => !hiddenTypes.has(e.type));
+    const ids = new Set(entities.map(e => e.id));
+    return largestEntities({ entities, relations: scoped.relations.filter(r => ids.has(r.from) && ids.has(r.to)) }, MAX_NODES);
+  }, [scoped, hiddenTypes]);
+  const positions = useMemo(() => shown ? layoutGraph(shown, WIDTH, HEIGHT) : new Map<string, { x: number; y: number }>(), [shown]);
+
+  const selected = shown?.entities.find(e => e.id === selectedId);
+  const neighborIds = useMemo(() => new Set(
+    (shown?.relations || []).filter(r => r.from === selectedId || r.to === selectedId).flatMap(r => [r.from, r.to])
+  ), [shown, selectedId]);
+  const nameOf = (id: string) => shown?.entities.find(e => e.id === id)?.name || id;
+
+  const toggleType = (type: EntityType) => setHiddenTypes(prev => {
+    const next = new Set(prev);
+    if (next.has(type)) next.delete(type); else next.add(type);
+    return next;
+  });
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const scale = Math.min(3, Math.max(0.3, view.scale * (e.deltaY < 0 ? 1.1 : 0.9)));
+    setView({ ...view, scale });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const dx = e.clientX - dragRef.current.x;
+    const dy = e.clientY - dragRef.current.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setView(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const radius = (entity: GraphEntity) => Math.min(14, 5 + entity.mentions.length * 1.5);
+
+  if (!graph?.entities.length && scope === 'report') {
+    return (
+      <div className="mt-4 p-6 rounded-lg border border-dashed border-zinc-800 text-center space-y-3">
+        {extracting ? (
+          <p className="flex items-center justify-center gap-2 text-xs text-indigo-300">
+            <SparklesIcon className="w-3 h-3 animate-pulse" />
+            Extractor is reading the findings...
+          </p>
+        ) : (
+          <p className="text-xs text-zinc-500">No entities have been extracted from this report yet.</p>
+        )}
+        <div className="flex justify-center gap-2">
+          {onExtract && !extracting && (
+            <button onClick={onExtract} className="px-3 py-1.5 rounded-lg bg-zinc-100 text-zinc-900 text-xs font-medium hover:bg-white transition-colors">
+              Extract entities
+            </button>
+          )}
+          {crossTopicGraph.entities.length > 0 && (
+            <button onClick={() => setScope('all')} className="px-3 py-1.5 rounded-lg border border-zinc-700 text-xs text-zinc-300 hover:text-white transition-colors">
+              Browse all topics
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex rounded-lg border border-zinc-800 overflow-hidden text-[11px]">
+          {(['report', 'all'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => { setScope(option); setSelectedId(null); }}
+              className={`px-3 py-1 transition-colors ${scope === option ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              {option === 'report' ? 'This report' : 'All topics'}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {ENTITY_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded-full border border-zinc-800 text-[10px] capitalize transition-opacity ${hiddenTypes.has(type) ? 'opacity-40' : ''}`}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: TYPE_COLORS[type] }} />
+              {type}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-[11px] text-zinc-600">
+        {shown?.entities.length || 0} entities · {shown?.relations.length || 0} relations
+        {scoped && scoped.entities.length > (shown?.entities.length || 0) && ` · showing the best connected of ${scoped.entities.length}`}
+        {extracting && ' · extracting new findings...'}
+      </p>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full rounded-lg border border-zinc-800 bg-zinc-950/60 cursor-grab active:cursor-grabbing touch-none"
+        onWheel={handleWheel}
+        onPointerDown={e => { dragRef.current = { x: e.clientX, y: e.clientY }; }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerLeave={() => { dragRef.current = null; }}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {shown?.relations.map(relation => {
+            const from = positions.get(relation.from)!;
+            const to = positions.get(relation.to)!;
+            const active = relation.from === selectedId || relation.to === selectedId;
+            return (
+              <g key={relation.id}>
+                <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke={active ? '#a5b4fc' : '#3f3f46'} strokeWidth={active ? 1.5 : 1} />
+                {active && (
+                  <text x={(from.x + to.x) / 2} y={(from.y + to.y) / 2 - 4} textAnchor="middle" className="fill-indigo-200 text-[10px]">
+                    {relation.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          {shown?.entities.map(entity => {
+            const { x, y } = positions.get(entity.id)!;
+            const dimmed = !!selectedId && entity.id !== selectedId && !neighborIds.has(entity.id);
+            const linked = new Set(entity.mentions.map(m => m.sessionId)).size > 1;
+            return (
+              <g
+                key={entity.id}
+                onPointerDown={e => e.stopPropagation()}
+                onClick={() => setSelectedId(entity.id === selectedId ? null : entity.id)}
+                className="cursor-pointer"
+                opacity={dimmed ? 0.25 : 1}
+              >
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={radius(entity)}
+                  fill={TYPE_COLORS[entity.type]}
+                  stroke={entity.id === selectedId ? '#fff' : linked ? '#fde68a' : 'none'}
+                  strokeWidth={2}
+                >
+                  <title>{`${entity.name} (${entity.type})${linked ? ' · appears in several topics' : ''}`}</title>
+                </circle>
+                <text x={x} y={y + radius(entity) + 11} textAnchor="middle" className="fill-zinc-300 text-[10px] pointer-events-none">
+                  {entity.name.length > 24 ? `${entity.name.slice(0, 23)}…` : entity.name}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      {selected && (
+        <div className="p-4 rounded-lg border border-zinc-800 bg-zinc-900/30 space-y-3 text-xs">
+          <div>
+            <h4 className="text-sm text-zinc-200">{selected.name}</h4>
+            <p className="text-[11px] capitalize" style={{ color: TYPE_COLORS[selected.type] }}>{selected.type}</p>
+          </div>
+
+          {shown!.relations.some(r => r.from === selected.id || r.to === selected.id) && (
+            <div>
+              <h5 className="text-[10px] uppercase tracking-wider text-zinc-500">Relations</h5>
+              <ul className="mt-1 space-y-1">
+                {shown!.relations.filter(r => r.from === selected.id || r.to === selected.id).map(relation => (
+                  <li key={relation.id} className="text-zinc-400" title={relation.evidence}>
+                    <button onClick={() => setSelectedId(relation.from)} className="text-zinc-200 hover:underline">{nameOf(relation.from)}</button>
+                    {' '}<span className="text-indigo-300">{relation.label}</span>{' '}
+                    <button onClick={() => setSelectedId(relation.to)} className="text-zinc-200 hover:underline">{nameOf(relation.to)}</button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h5 className="text-[10px] uppercase tracking-wider text-zinc-500">Mentioned in</h5>
+            <ul className="mt-1 space-y-1">
+              {selected.mentions.map(mention => (
+                <li key={`${mention.sessionId}/${mention.stepId}`} className="text-zinc-400">
+                  {mention.topic && mention.sessionId !== activeSessionId ? (
+                    <button onClick={() => onOpenSession(mention.sessionId!)} className="text-indigo-400 hover:text-indigo-300">{mention.topic}</button>
+                  ) : mention.topic && <span className="text-zinc-300">{mention.topic}</span>}
+                  {mention.topic && ' › '}{mention.query}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {uniqueSources(selected.mentions).length > 0 && (
+            <div>
+              <h5 className="text-[10px] uppercase tracking-wider text-zinc-500">Sources</h5>
+              <ul className="mt-1 space-y-0.5">
+                {uniqueSources(selected.mentions).map(s => (
+                  <li key={sourceKey(s)} className="truncate">
+                    {/^https?:\/\//i.test(s.uri)
+                      ? <a href={s.uri} target="_blank" rel="noreferrer noopener" className="text-indigo-400 hover:text-indigo-300">{s.title}</a>
+                      : <span className="text-zinc-400">{s.title}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
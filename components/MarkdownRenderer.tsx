@@ -1,61 +1,226 @@
-import React from 'react';
+import React, { useMemo, useRef } from 'react';
+import { Block, createMarkdownParser, Inline, plainText, sanitizeUrl } from '../services/markdown';
+import { CheckedClaim } from '../types';
+import { findingStepId } from '../services/comparison';
 
 interface Props {
   content: string;
   isStreaming?: boolean;
+  // Number of entries in the References list; markers outside 1..citationCount stay plain text
+  citationCount?: number;
+  onCitationClick?: (n: number) => void;
+  // Claims the fact-check flagged; the sentences they quote are highlighted
+  flaggedClaims?: CheckedClaim[];
+  // Comparison matrix cells link to the finding of their step
+  onFindingClick?: (stepId: string) => void;
 }
 
-// A very simple parser to avoid heavy dependencies in this specific setup
-// It handles Headers, Bold, Lists, and Paragraphs to a reasonable degree for a demo.
-const SimpleMarkdown: React.FC<Props> = ({ content, isStreaming }) => {
-  const lines = content.split('\n');
-  
-  return (
-    <div className="space-y-4 font-light leading-relaxed text-gray-300">
-      {lines.map((line, index) => {
-        // Header 1
-        if (line.startsWith('# ')) {
-          return <h1 key={index} className="text-3xl font-semibold text-white mt-8 mb-4 tracking-tight border-b border-zinc-800 pb-2">{line.replace('# ', '')}</h1>;
-        }
-        // Header 2
-        if (line.startsWith('## ')) {
-          return <h2 key={index} className="text-xl font-medium text-white mt-6 mb-3 tracking-tight">{line.replace('## ', '')}</h2>;
-        }
-        // Header 3
-        if (line.startsWith('### ')) {
-          return <h3 key={index} className="text-lg font-medium text-zinc-200 mt-4 mb-2">{line.replace('### ', '')}</h3>;
-        }
-        // Bullet points
-        if (line.trim().startsWith('- ') || line.trim().startsWith('* ')) {
-          const cleanLine = line.replace(/^(\s*)([-*])\s+/, '');
-          // Simple bold parser within list
-          const parts = cleanLine.split(/(\*\*.*?\*\*)/g);
+const alignClass = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const markClass = {
+  unsupported: 'bg-amber-500/15 text-amber-100 decoration-amber-500/60',
+  contradicted: 'bg-red-500/15 text-red-100 decoration-red-500/60',
+};
+
+// Loose form for matching quotes against rendered text: case, spacing and quote styles don't matter
+const normalize = (text: string) => text.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+
+const NO_CLAIMS: CheckedClaim[] = [];
+
+// Shorter quotes would light up unrelated words
+const MIN_QUOTE_LENGTH = 12;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Renders the report through services/markdown. Everything goes through React elements,
+// never innerHTML, so model output cannot inject markup.
+const MarkdownRenderer: React.FC<Props> = ({ content, isStreaming, citationCount = 0, onCitationClick, flaggedClaims = NO_CLAIMS, onFindingClick }) => {
+  // One parser per mounted report keeps its chunk cache across streamed updates
+  const parserRef = useRef(createMarkdownParser());
+  const blocks = useMemo(() => parserRef.current(content), [content]);
+
+  const markable = useMemo(() => flaggedClaims.filter(claim => claim.quote.trim().length >= MIN_QUOTE_LENGTH), [flaggedClaims]);
+
+  // Quotes that fall inside a single text run are marked inline; see paragraphClaim for the rest
+  const quotePattern = useMemo(() => {
+    const quotes = markable.map(claim => claim.quote.trim()).sort((a, b) => b.length - a.length);
+    return quotes.length ? new RegExp(`(${quotes.map(escapeRegExp).join('|')})`, 'gi') : null;
+  }, [markable]);
+
+  const claimFor = (quote: string) => markable.find(claim => normalize(claim.quote) === normalize(quote));
+
+  const renderMark = (claim: CheckedClaim, children: React.ReactNode, key: React.Key) => (
+    <mark
+      key={key}
+      data-claim={claim.id}
+      title={`${claim.verdict === 'contradicted' ? 'Contradicted' : 'Unsupported'} by the research notes${claim.evidence ? `: ${claim.evidence}` : ''}`}
+      className={`rounded-sm px-0.5 underline decoration-wavy underline-offset-4 scroll-mt-24 ${markClass[claim.verdict as keyof typeof markClass]}`}
+    >
+      {children}
+    </mark>
+  );
+
+  const renderText = (text: string, key: React.Key) => {
+    if (!quotePattern) return <React.Fragment key={key}>{text}</React.Fragment>;
+    return (
+      <React.Fragment key={key}>
+        {text.split(quotePattern).map((part, i) => {
+          const claim = i % 2 === 1 ? claimFor(part) : undefined;
+          return claim ? renderMark(claim, part, i) : part;
+        })}
+      </React.Fragment>
+    );
+  };
+
+  // Quotes that span formatting or citations can't be marked inline, so the whole paragraph is marked instead
+  const paragraphClaim = (children: Inline[]) => {
+    if (!markable.length) return undefined;
+    const text = normalize(plainText(children));
+    const runs = children.filter((node): node is { type: 'text'; text: string } => node.type === 'text').map(node => normalize(node.text));
+    return markable.find(claim => {
+      const quote = normalize(claim.quote);
+      return text.includes(quote) && !runs.some(run => run.includes(quote));
+    });
+  };
+
+  const renderInline = (nodes: Inline[]): React.ReactNode[] => nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return renderText(node.text, i);
+      case 'strong':
+        return <strong key={i} className="font-semibold text-zinc-200">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i} className="italic">{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={i} className="text-zinc-500">{renderInline(node.children)}</del>;
+      case 'code':
+        return <code key={i} className="px-1 py-0.5 rounded bg-zinc-800 text-zinc-200 font-mono text-[0.85em]">{node.text}</code>;
+      case 'break':
+        return <br key={i} />;
+      case 'link': {
+        const stepId = findingStepId(node.href);
+        if (stepId) {
+          if (!onFindingClick) return null;
           return (
-            <li key={index} className="ml-4 list-disc marker:text-zinc-600 pl-1 my-1">
-              {parts.map((part, i) => 
-                part.startsWith('**') && part.endsWith('**') 
-                  ? <strong key={i} className="font-semibold text-zinc-200">{part.slice(2, -2)}</strong> 
-                  : part
-              )}
-            </li>
+            <button key={i} onClick={() => onFindingClick(stepId)} title="Show the finding behind this cell" className="ml-1 text-[10px] text-indigo-400 hover:text-indigo-300">
+              {renderInline(node.children)}
+            </button>
           );
         }
-        
-        // Empty lines
-        if (line.trim() === '') return <div key={index} className="h-2"></div>;
+        const href = sanitizeUrl(node.href);
+        if (!href) return <React.Fragment key={i}>{renderInline(node.children)}</React.Fragment>;
+        return (
+          <a key={i} href={href} title={node.title} target="_blank" rel="noreferrer noopener" className="text-indigo-400 hover:text-indigo-300 underline underline-offset-2">
+            {renderInline(node.children)}
+          </a>
+        );
+      }
+      case 'image': {
+        // Images are shown as links so a report never loads remote content on its own
+        const src = sanitizeUrl(node.src);
+        if (!src) return <React.Fragment key={i}>{node.alt}</React.Fragment>;
+        return <a key={i} href={src} target="_blank" rel="noreferrer noopener" className="text-indigo-400 underline">{node.alt || src}</a>;
+      }
+      case 'citation': {
+        if (!node.numbers.every(n => n <= citationCount)) {
+          return <React.Fragment key={i}>[{node.numbers.join(', ')}]</React.Fragment>;
+        }
+        return (
+          <sup key={i} className="ml-0.5 text-[10px] font-mono">
+            [{node.numbers.map((n, j) => (
+              <React.Fragment key={n}>
+                {j > 0 && ', '}
+                <a
+                  href={`#ref-${n}`}
+                  onClick={(e) => { e.preventDefault(); onCitationClick?.(n); }}
+                  className="text-indigo-400 hover:text-indigo-300 hover:underline"
+                >
+                  {n}
+                </a>
+              </React.Fragment>
+            ))}]
+          </sup>
+        );
+      }
+    }
+  });
 
-        // Paragraphs with Bold support
-        const parts = line.split(/(\*\*.*?\*\*)/g);
+  const renderBlock = (block: Block, key: React.Key, tight = false): React.ReactNode => {
+    switch (block.type) {
+      case 'heading': {
+        const children = renderInline(block.children);
+        if (block.level === 1) return <h1 key={key} className="text-3xl font-semibold text-white mt-8 mb-4 tracking-tight border-b border-zinc-800 pb-2">{children}</h1>;
+        if (block.level === 2) return <h2 key={key} className="text-xl font-medium text-white mt-6 mb-3 tracking-tight">{children}</h2>;
+        if (block.level === 3) return <h3 key={key} className="text-lg font-medium text-zinc-200 mt-4 mb-2">{children}</h3>;
+        return <h4 key={key} className="text-base font-medium text-zinc-300 mt-3 mb-1">{children}</h4>;
+      }
+      case 'paragraph': {
+        const claim = paragraphClaim(block.children);
+        const children = claim ? renderMark(claim, renderInline(block.children), 'mark') : renderInline(block.children);
+        return tight
+          ? <React.Fragment key={key}>{children}</React.Fragment>
+          : <p key={key} className="whitespace-pre-line">{children}</p>;
+      }
+      case 'code':
+        return (
+          <pre key={key} className="p-4 rounded-lg bg-zinc-900 border border-zinc-800 overflow-x-auto text-sm">
+            <code className="font-mono text-zinc-300">{block.text}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={key} className="border-l-2 border-zinc-700 pl-4 text-zinc-400 italic space-y-2">
+            {block.children.map((child, i) => renderBlock(child, i))}
+          </blockquote>
+        );
+      case 'hr':
+        return <hr key={key} className="border-zinc-800 my-6" />;
+      case 'list': {
+        const items = block.items.map((item, i) => (
+          <li key={i} className={`pl-1 my-1 ${item.checked !== null ? 'list-none -ml-5' : ''}`}>
+            {item.checked !== null && (
+              <input type="checkbox" checked={item.checked} readOnly disabled className="mr-2 align-middle accent-indigo-500" />
+            )}
+            {item.children.map((child, j) => renderBlock(child, j, !block.loose))}
+          </li>
+        ));
+        return block.ordered
+          ? <ol key={key} start={block.start} className="ml-6 list-decimal marker:text-zinc-500 space-y-1">{items}</ol>
+          : <ul key={key} className="ml-6 list-disc marker:text-zinc-600 space-y-1">{items}</ul>;
+      }
+      case 'table':
         return (
-            <p key={index} className="min-h-[1.5em]">
-              {parts.map((part, i) => 
-                part.startsWith('**') && part.endsWith('**') 
-                  ? <strong key={i} className="font-semibold text-zinc-200">{part.slice(2, -2)}</strong> 
-                  : part
-              )}
-            </p>
+          <div key={key} className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, i) => (
+                    <th key={i} className={`px-3 py-2 border-b border-zinc-700 font-medium text-zinc-200 ${alignClass[block.align[i] || 'left']}`}>
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="even:bg-zinc-900/40">
+                    {row.map((cell, i) => (
+                      <td key={i} className={`px-3 py-2 border-b border-zinc-800 align-top ${alignClass[block.align[i] || 'left']}`}>
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         );
-      })}
+    }
+  };
+
+  return (
+    <div className="space-y-4 font-light leading-relaxed text-gray-300">
+      {blocks.map((block, index) => renderBlock(block, index))}
       {isStreaming && (
         <span className="inline-block w-2 h-4 ml-1 bg-blue-500 animate-pulse align-middle"></span>
       )}
@@ -63,4 +228,4 @@ const SimpleMarkdown: React.FC<Props> = ({ content, isStreaming }) => {
   );
 };
 
-export default SimpleMarkdown;
+export default MarkdownRenderer;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ResearchMonitor } from '../types';
+import { MONITOR_SCHEDULES } from '../services/monitors';
+import ChangeDigestView from './ChangeDigestView';
+import { PlayIcon, TrashIcon } from './Icons';
+
+interface Props {
+  monitors: ResearchMonitor[];
+  // Monitor whose run is in progress
+  runningId?: string | null;
+  // Omitted when the current run can't become a monitor (not completed, or read-only)
+  onCreate?: () => void;
+  onRun: (monitor: ResearchMonitor) => void;
+  onSchedule: (monitor: ResearchMonitor, intervalHours?: number) => void;
+  onDelete: (monitor: ResearchMonitor) => void;
+  onOpenSession: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (time?: number) => time ? new Date(time).toLocaleString() : '—';
+
+// Saved topics that are researched again on demand or on a schedule while the app is open.
+// Each monitor shows what changed in its latest run.
+export default function MonitorPanel({ monitors, runningId, onCreate, onRun, onSchedule, onDelete, onOpenSession, onClose }: Props) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <div className="absolute top-14 right-4 w-96 max-h-[75vh] overflow-y-auto custom-scrollbar z-30 rounded-xl border border-zinc-800 bg-zinc-900 shadow-xl p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-zinc-200">Monitors</h3>
+          <p className="text-[11px] text-zinc-500 mt-1">Re-run an approved plan and see what changed since the last run. Schedules only run while the app is open.</p>
+        </div>
+        <button onClick={onClose} aria-label="Close monitors" className="px-1 text-zinc-500 hover:text-white transition-colors">×</button>
+      </div>
+
+      {onCreate && (
+        <button
+          onClick={onCreate}
+          className="w-full px-3 py-1.5 rounded-lg border border-dashed border-zinc-700 text-xs text-zinc-300 hover:text-white hover:border-zinc-500 transition-colors"
+        >
+          Monitor this topic
+        </button>
+      )}
+
+      {monitors.length === 0 && (
+        <p className="text-xs text-zinc-600">No monitors yet. Finish a report, then monitor its topic from here.</p>
+      )}
+
+      {monitors.map(monitor => {
+        const last = monitor.runs[monitor.runs.length - 1];
+        const running = runningId === monitor.id;
+        return (
+          <div key={monitor.id} className="p-3 rounded-lg border border-zinc-800 bg-black/20 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs text-zinc-200 truncate" title={monitor.plan.topic}>{monitor.name}</p>
+                <p className="text-[10px] text-zinc-600">{monitor.plan.steps.length} steps · {monitor.runs.length} runs</p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => onRun(monitor)}
+                  disabled={!!runningId}
+                  title="Run now"
+                  className={`p-1 text-zinc-400 hover:text-white disabled:opacity-30 transition-colors ${running ? 'animate-pulse text-indigo-400' : ''}`}
+                >
+                  <PlayIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => onDelete(monitor)}
+                  disabled={running}
+                  title="Delete monitor"
+                  className="p-1 text-zinc-500 hover:text-red-400 disabled:opacity-30 transition-colors"
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 text-[11px] text-zinc-500">
+              <select
+                value={monitor.intervalHours ?? ''}
+                disabled={running}
+                onChange={e => onSchedule(monitor, Number(e.target.value) || undefined)}
+                className="bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-zinc-300 focus:outline-none"
+              >
+                {MONITOR_SCHEDULES.map(schedule => (
+                  <option key={schedule.label} value={schedule.hours ?? ''}>{schedule.label}</option>
+                ))}
+              </select>
+              {monitor.nextRunAt && <span>next {formatTime(monitor.nextRunAt)}</span>}
+            </div>
+
+            <div className="text-[11px] text-zinc-500">
+              {running ? (
+                <span className="text-indigo-300">Researching...</span>
+              ) : (
+                <>
+                  Last run {formatTime(last?.startedAt)}
+                  {last?.error && <span className="block text-amber-400">{last.error}</span>}
+                  {last?.sessionId && (
+                    <button onClick={() => onOpenSession(last.sessionId!)} className="ml-2 text-indigo-400 hover:text-indigo-300">Open report</button>
+                  )}
+                </>
+              )}
+            </div>
+
+            {last?.digest && (
+              openId === monitor.id ? (
+                <div className="pt-2 border-t border-zinc-800 space-y-1">
+                  <ChangeDigestView digest={last.digest} />
+                  <button onClick={() => setOpenId(null)} className="text-[11px] text-zinc-500 hover:text-white transition-colors">Hide changes</button>
+                </div>
+              ) : (
+                <button onClick={() => setOpenId(monitor.id)} className="text-[11px] text-indigo-400 hover:text-indigo-300">
+                  What changed · {last.digest.changedFigures.length} figures, {last.digest.newSources.length} new sources
+                </button>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,16 +1,26 @@
-
 import React, { useState } from 'react';
-import { ResearchPlan, ResearchStep } from '../types';
-import { CheckIcon, PlusIcon, TrashIcon } from './Icons';
+import { DeepResearchConfig, PlanRevision, ResearchPlan, ResearchStep } from '../types';
+import { DEFAULT_DEEP_RESEARCH } from '../services/orchestrator';
+import { CheckIcon, ChevronDownIcon, ChevronUpIcon, EditIcon, GripIcon, PlusIcon, RefreshIcon, TrashIcon } from './Icons';
 
 interface Props {
   plan: ResearchPlan;
   onApprove: (approvedPlan: ResearchPlan) => void;
+  onRevise?: (revision: PlanRevision) => void;
+  // The Planner is working on a revision of this draft
+  isRevising?: boolean;
 }
 
-export default function PlanReview({ plan, onApprove }: Props) {
+export default function PlanReview({ plan, onApprove, onRevise, isRevising }: Props) {
   const [steps, setSteps] = useState<ResearchStep[]>(plan.steps);
   const [newStepText, setNewStepText] = useState('');
+  // Deep mode limits; undefined runs the plan in a single pass
+  const [deep, setDeep] = useState<DeepResearchConfig | undefined>(plan.deep);
+  const [feedback, setFeedback] = useState('');
+  // Steps whose guidance note editor is open
+  const [openNotes, setOpenNotes] = useState<Set<string>>(() => new Set(plan.steps.filter(s => s.notes).map(s => s.id)));
+  // Set while a step is held by its drag handle, so the inputs stay selectable otherwise
+  const [draggedId, setDraggedId] = useState<string | null>(null);
 
   const handleAdd = () => {
     if (!newStepText.trim()) return;
@@ -27,46 +37,151 @@ export default function PlanReview({ plan, onApprove }: Props) {
     setSteps(steps.filter(s => s.id !== id));
   };
 
-  const handleEdit = (id: string, text: string) => {
-    setSteps(steps.map(s => s.id === id ? { ...s, query: text } : s));
+  const handleEdit = (id: string, patch: Partial<ResearchStep>) => {
+    setSteps(steps.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  const handleMove = (id: string, to: number) => {
+    const from = steps.findIndex(s => s.id === id);
+    if (from < 0 || to < 0 || to >= steps.length || from === to) return;
+    const next = [...steps];
+    next.splice(to, 0, ...next.splice(from, 1));
+    setSteps(next);
+  };
+
+  // Alt+↑ / Alt+↓ on a step moves it
+  const handleStepKeyDown = (e: React.KeyboardEvent, id: string, index: number) => {
+    if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    e.preventDefault();
+    handleMove(id, e.key === 'ArrowUp' ? index - 1 : index + 1);
+  };
+
+  const toggleNotes = (id: string) => {
+    setOpenNotes(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleRevise = () => {
+    if (!feedback.trim() || !onRevise) return;
+    onRevise({ feedback, steps });
   };
 
+  const handleDeepLimit = (key: keyof DeepResearchConfig, value: string) => {
+    const n = Math.max(1, Math.floor(Number(value)) || 1);
+    setDeep(prev => prev && { ...prev, [key]: n });
+  };
+
+  const deepLimits: { key: keyof DeepResearchConfig; label: string }[] = [
+    { key: 'maxDepth', label: 'Rounds' },
+    { key: 'breadth', label: 'Per round' },
+    { key: 'maxSteps', label: 'Max steps' },
+  ];
+
   return (
-    <div className="mt-4 bg-zinc-900/80 border border-zinc-800 rounded-xl overflow-hidden shadow-lg">
+    <div className={`mt-4 bg-zinc-900/80 border border-zinc-800 rounded-xl overflow-hidden shadow-lg ${isRevising ? 'opacity-60 pointer-events-none' : ''}`}>
       <div className="bg-zinc-900 border-b border-zinc-800 px-4 py-3 flex items-center justify-between">
         <h3 className="text-sm font-semibold text-zinc-200">Review Research Plan</h3>
         <span className="text-xs text-zinc-500 bg-zinc-950 px-2 py-1 rounded border border-zinc-800">
           Human in the Loop
         </span>
       </div>
-      
+
       <div className="p-4 space-y-3">
         <p className="text-xs text-zinc-400 mb-2">
           I've drafted a plan to research "{plan.topic}". Please review, edit, or add steps before I begin.
+          Drag steps (or use Alt+↑/↓) to change their order.
         </p>
 
-        {steps.map((step) => (
-          <div key={step.id} className="flex items-center gap-2 group">
-            <div className="flex-1 bg-black/40 border border-zinc-800/50 rounded-md px-3 py-2 flex items-center">
-              <input 
-                className="bg-transparent w-full text-sm text-zinc-300 focus:outline-none"
-                value={step.query}
-                onChange={(e) => handleEdit(step.id, e.target.value)}
-              />
+        {steps.map((step, index) => (
+          <div
+            key={step.id}
+            draggable={draggedId === step.id}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => { if (draggedId) handleMove(draggedId, index); setDraggedId(null); }}
+            onDragEnd={() => setDraggedId(null)}
+            onKeyDown={(e) => handleStepKeyDown(e, step.id, index)}
+            className={`group space-y-1 ${draggedId === step.id ? 'opacity-40' : ''}`}
+          >
+            <div className="flex items-center gap-2">
+              <span
+                onMouseDown={() => setDraggedId(step.id)}
+                onMouseUp={() => setDraggedId(null)}
+                className="shrink-0 text-zinc-700 hover:text-zinc-400 cursor-grab"
+              >
+                <GripIcon className="w-4 h-4" />
+              </span>
+              <div className="flex-1 bg-black/40 border border-zinc-800/50 rounded-md px-3 py-2 flex items-center gap-2">
+                {step.cell && (
+                  <span title="Comparison cell" className="shrink-0 max-w-[40%] truncate text-[10px] text-indigo-400">
+                    {step.cell.entity} × {step.cell.criterion}
+                  </span>
+                )}
+                <input
+                  className="bg-transparent w-full text-sm text-zinc-300 focus:outline-none"
+                  value={step.query}
+                  onChange={(e) => handleEdit(step.id, { query: e.target.value })}
+                />
+                <button
+                  onClick={() => handleEdit(step.id, { optional: !step.optional || undefined })}
+                  title="Optional steps that fail don't hold the run; they are reported as coverage gaps"
+                  className={`shrink-0 px-1.5 py-0.5 rounded border text-[10px] uppercase tracking-wider transition-colors ${
+                    step.optional ? 'border-zinc-700 text-zinc-500' : 'border-blue-900 text-blue-400'
+                  }`}
+                >
+                  {step.optional ? 'Optional' : 'Required'}
+                </button>
+              </div>
+              <div className="flex flex-col opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                <button
+                  onClick={() => handleMove(step.id, index - 1)}
+                  disabled={index === 0}
+                  aria-label="Move step up"
+                  className="text-zinc-600 hover:text-zinc-300 disabled:opacity-30"
+                >
+                  <ChevronUpIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleMove(step.id, index + 1)}
+                  disabled={index === steps.length - 1}
+                  aria-label="Move step down"
+                  className="text-zinc-600 hover:text-zinc-300 disabled:opacity-30"
+                >
+                  <ChevronDownIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <button
+                onClick={() => toggleNotes(step.id)}
+                title="Guidance for the Researcher"
+                className={`p-2 transition-opacity ${step.notes ? 'text-blue-400' : 'text-zinc-600 hover:text-zinc-300 opacity-0 group-hover:opacity-100'}`}
+              >
+                <EditIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleRemove(step.id)}
+                className="p-2 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
             </div>
-            <button 
-              onClick={() => handleRemove(step.id)}
-              className="p-2 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
-            >
-              <TrashIcon className="w-4 h-4" />
-            </button>
+            {openNotes.has(step.id) && (
+              <textarea
+                rows={2}
+                value={step.notes || ''}
+                onChange={(e) => handleEdit(step.id, { notes: e.target.value || undefined })}
+                placeholder="Guidance for the Researcher, e.g. focus on peer-reviewed sources since 2020..."
+                className="ml-6 w-[calc(100%-5.5rem)] bg-black/20 border border-zinc-800/50 rounded-md px-3 py-2 text-xs text-zinc-400 focus:outline-none focus:border-blue-500/50 placeholder:text-zinc-700 resize-none"
+              />
+            )}
           </div>
         ))}
 
         {/* Add New */}
         <div className="flex items-center gap-2 pt-2">
            <div className="flex-1 bg-black/20 border border-dashed border-zinc-700 rounded-md px-3 py-2 flex items-center focus-within:border-blue-500/50 transition-colors">
-              <input 
+              <input
                 className="bg-transparent w-full text-sm text-zinc-400 focus:outline-none placeholder:text-zinc-700"
                 placeholder="Add a custom research step..."
                 value={newStepText}
@@ -74,7 +189,7 @@ export default function PlanReview({ plan, onApprove }: Props) {
                 onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
               />
            </div>
-           <button 
+           <button
              onClick={handleAdd}
              disabled={!newStepText.trim()}
              className="p-2 text-zinc-500 hover:text-blue-400 disabled:opacity-50"
@@ -82,12 +197,57 @@ export default function PlanReview({ plan, onApprove }: Props) {
              <PlusIcon className="w-4 h-4" />
            </button>
         </div>
+
+        {/* Regenerate */}
+        {onRevise && (
+          <div className="flex items-center gap-2 pt-2 border-t border-zinc-800/60">
+            <input
+              className="flex-1 bg-black/20 border border-zinc-800/50 rounded-md px-3 py-2 text-sm text-zinc-400 focus:outline-none focus:border-blue-500/50 placeholder:text-zinc-700"
+              placeholder="Tell the Planner what to change, e.g. less history, more on costs..."
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRevise()}
+            />
+            <button
+              onClick={handleRevise}
+              disabled={!feedback.trim() || isRevising}
+              className="shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-md border border-zinc-700 text-xs text-zinc-300 hover:text-white hover:border-zinc-500 disabled:opacity-40 transition-colors"
+            >
+              <RefreshIcon className={`w-3.5 h-3.5 ${isRevising ? 'animate-spin' : ''}`} />
+              <span>{isRevising ? 'Revising...' : 'Regenerate'}</span>
+            </button>
+          </div>
+        )}
       </div>
 
-      <div className="bg-zinc-900/50 p-4 border-t border-zinc-800 flex justify-end">
-        <button 
-          onClick={() => onApprove({ ...plan, steps })}
-          className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+      <div className="bg-zinc-900/50 p-4 border-t border-zinc-800 flex items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+          <label className="flex items-center gap-2 cursor-pointer" title="After each round an Analyst proposes follow-up steps for gaps and contradictions">
+            <input
+              type="checkbox"
+              checked={!!deep}
+              onChange={(e) => setDeep(e.target.checked ? DEFAULT_DEEP_RESEARCH : undefined)}
+              className="accent-blue-500"
+            />
+            <span>Deep research</span>
+          </label>
+          {deep && deepLimits.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-1 text-zinc-500">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={1}
+                value={deep[key]}
+                onChange={(e) => handleDeepLimit(key, e.target.value)}
+                className="w-12 bg-black/40 border border-zinc-800 rounded px-1.5 py-0.5 text-zinc-300 focus:outline-none focus:border-blue-500/50"
+              />
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={() => onApprove({ ...plan, steps, deep })}
+          disabled={isRevising || steps.length === 0}
+          className="shrink-0 flex items-center space-x-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
         >
           <CheckIcon className="w-4 h-4" />
           <span>Approve & Start Research</span>
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { QualityTier, Source } from '../types';
+import { isDocumentSource } from '../services/documents';
+import { groupByDomain } from '../services/sources';
+
+interface Props {
+  sources: Source[];
+  // Citation number currently highlighted after a click in the report
+  highlighted?: number | null;
+}
+
+const TIER_STYLES: Record<QualityTier, string> = {
+  official: 'border-sky-900/70 text-sky-400/90',
+  academic: 'border-violet-900/70 text-violet-400/90',
+  reference: 'border-teal-900/70 text-teal-400/90',
+  news: 'border-amber-900/70 text-amber-400/90',
+  web: 'border-zinc-700 text-zinc-500',
+  forum: 'border-rose-900/70 text-rose-400/90',
+};
+
+// Numbered reference cards. Card n has id `ref-n` so inline [n] markers can scroll to it.
+// Attached documents have no URL, so their cards are not links.
+export default function ReferenceList({ sources, highlighted }: Props) {
+  const [byDomain, setByDomain] = useState(false);
+
+  const renderCard = (source: Source, n: number) => {
+    const isDocument = isDocumentSource(source);
+    const Card = isDocument ? 'div' : 'a';
+    return (
+      <Card
+        key={source.uri}
+        id={`ref-${n}`}
+        {...(isDocument ? {} : { href: source.uri, target: '_blank', rel: 'noreferrer' })}
+        className={`flex gap-3 p-3 rounded border transition text-xs text-zinc-400 hover:text-indigo-400 group scroll-mt-24 ${
+          highlighted === n
+            ? 'border-indigo-500 bg-indigo-950/40 ring-1 ring-indigo-500/50'
+            : 'border-zinc-800 bg-zinc-900/30 hover:bg-zinc-800'
+        } ${source.downranked ? 'opacity-60' : ''}`}
+      >
+        <span className="shrink-0 font-mono text-[10px] text-zinc-500 group-hover:text-indigo-400 mt-0.5">[{n}]</span>
+        <span className="min-w-0">
+          <span className="block font-medium truncate text-zinc-300 group-hover:text-indigo-300">{source.title}</span>
+          <span className="flex items-center gap-1.5 text-[10px] text-zinc-600 mt-1 min-w-0">
+            {isDocument ? (
+              <span className="px-1 py-px rounded border border-emerald-900/60 text-emerald-400/80 uppercase tracking-wider">Attached document</span>
+            ) : (
+              <>
+                {source.tier && (
+                  <span className={`shrink-0 px-1 py-px rounded border uppercase tracking-wider ${TIER_STYLES[source.tier]}`}>{source.tier}</span>
+                )}
+                {source.downranked && (
+                  <span className="shrink-0 px-1 py-px rounded border border-zinc-700 uppercase tracking-wider" title="Not on this session's allow list">Low priority</span>
+                )}
+                <span className="truncate">{source.domain || source.uri}</span>
+              </>
+            )}
+          </span>
+        </span>
+      </Card>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="mt-12 pt-8 border-t border-zinc-800"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">References</h3>
+        <button
+          onClick={() => setByDomain(!byDomain)}
+          className="text-[11px] text-zinc-500 hover:text-white transition-colors"
+        >
+          {byDomain ? 'Show in citation order' : 'Group by domain'}
+        </button>
+      </div>
+      {byDomain ? (
+        <div className="space-y-5">
+          {groupByDomain(sources).map(({ domain, entries }) => (
+            <div key={domain || 'documents'}>
+              <h4 className="text-[11px] text-zinc-500 mb-2">
+                {domain || 'Attached documents'} <span className="text-zinc-700">· {entries.length}</span>
+              </h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {entries.map(({ source, n }) => renderCard(source, n))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {sources.map((source, idx) => renderCard(source, idx + 1))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
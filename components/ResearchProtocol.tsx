@@ -0,0 +1,187 @@
+import React from 'react';
+import { ResearchPlan, ResearchStep } from '../types';
+import { AlertIcon, CheckIcon, GlobeIcon, RefreshIcon, ShieldIcon, SparklesIcon } from './Icons';
+
+interface Props {
+  plan: ResearchPlan;
+  // Deep mode: the round the Analyst is currently planning
+  analyzingRound?: number;
+  onRetryStep?: (stepId: string) => void;
+  // Lets a quarantined finding into the report
+  onReleaseStep?: (stepId: string) => void;
+  onContinue?: () => void;
+}
+
+// Live view of the approved plan while the Researcher works through it.
+// Several steps can be in flight at once, so each card reads its own status.
+// In deep mode the Analyst's follow-ups are grouped by round and nested under the step they follow up on.
+export default function ResearchProtocol({ plan, analyzingRound, onRetryStep, onReleaseStep, onContinue }: Props) {
+  const doneCount = plan.steps.filter(s => s.status === 'completed').length;
+  const failedCount = plan.steps.filter(s => s.status === 'failed' && !s.skipped).length;
+  const skippedCount = plan.steps.filter(s => s.skipped).length;
+  // Failed optional steps and steps skipped for the budget never hold the run
+  const blockingCount = plan.steps.filter(s => s.status === 'failed' && !s.optional && !s.skipped).length;
+  const isSettled = plan.steps.every(s => s.status === 'completed' || s.status === 'failed');
+  const rounds = Math.max(0, ...plan.steps.map(s => s.round || 0));
+
+  const childrenOf = (parentId: string) => plan.steps.filter(s => s.parentId === parentId);
+  // Follow-ups whose parent is unknown start their own branch in their round
+  const isRoot = (step: ResearchStep) => !step.parentId || !plan.steps.some(s => s.id === step.parentId);
+
+  const renderStep = (step: ResearchStep) => {
+    const isActive = step.status === 'researching';
+    const isDone = step.status === 'completed';
+    const isSkipped = !!step.skipped;
+    const isFailed = step.status === 'failed' && !isSkipped;
+    const isQuarantined = isFailed && !!step.quarantine;
+    const isRetrying = isActive && (step.attempts || 1) > 1;
+
+    return (
+      <div className={`p-4 rounded-lg border transition-all duration-300 ${
+        isActive ? 'bg-indigo-950/30 border-indigo-500/50 shadow-[0_0_15px_rgba(99,102,241,0.1)]' :
+        isQuarantined ? 'bg-amber-950/20 border-amber-900/60' :
+        isFailed ? 'bg-red-950/20 border-red-900/60' :
+        isDone ? 'bg-zinc-900/30 border-zinc-800 opacity-60' :
+        isSkipped ? 'bg-zinc-900/10 border-dashed border-zinc-800 opacity-50' :
+        'bg-zinc-900/10 border-zinc-800/50 opacity-40'
+      }`}>
+        <div className="flex items-start gap-3">
+          <div className={`mt-0.5 w-5 h-5 shrink-0 rounded-full flex items-center justify-center text-[10px] border ${
+            isActive ? 'border-indigo-400 text-indigo-400' :
+            isQuarantined ? 'bg-amber-950 border-amber-800 text-amber-400' :
+            isFailed ? 'bg-red-950 border-red-800 text-red-400' :
+            isDone ? 'bg-green-900 border-green-700 text-green-400' :
+            'border-zinc-700 text-zinc-600'
+          }`}>
+            {isDone ? <CheckIcon className="w-3 h-3" /> : isQuarantined ? <ShieldIcon className="w-3 h-3" /> : isFailed ? <AlertIcon className="w-3 h-3" /> : (plan.steps.indexOf(step) + 1)}
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className={`text-sm font-medium ${isActive ? 'text-indigo-200' : 'text-zinc-300'}`}>
+              {!!step.round && (
+                <span className="mr-2 px-1.5 py-0.5 rounded border border-zinc-700 font-mono text-[10px] text-zinc-500">R{step.round}</span>
+              )}
+              {step.query}
+              {step.optional && (
+                <span className="ml-2 px-1.5 py-0.5 rounded border border-zinc-800 text-[10px] font-normal uppercase tracking-wider text-zinc-500">Optional</span>
+              )}
+            </p>
+            {isActive && (
+              <div className="flex items-center gap-2 mt-2 text-xs text-indigo-400">
+                <GlobeIcon className="w-3 h-3 animate-spin" />
+                <span>{isRetrying ? `Retrying (attempt ${step.attempts})...` : 'Browsing sources...'}</span>
+              </div>
+            )}
+            {step.rationale && (
+              <p className="mt-1 text-[11px] text-zinc-500 italic">{step.rationale}</p>
+            )}
+            {isDone && (
+              <p className="mt-1 text-[11px] text-zinc-500">
+                {step.sources?.length || 0} sources found
+              </p>
+            )}
+            {isSkipped && (
+              <p className="mt-1 text-[11px] text-amber-400/70">Skipped to stay within the run budget</p>
+            )}
+            {isQuarantined ? (
+              <div className="mt-1 space-y-1 text-[11px]">
+                <p className="text-amber-300/80">Held back from the report: parts of this finding read like instructions to the AI.</p>
+                {step.quarantine!.map(flag => (
+                  <p key={flag.rule} className="text-zinc-500 break-words">
+                    <span className="text-amber-200/70">{flag.rule}:</span> "{flag.excerpt}"
+                  </p>
+                ))}
+              </div>
+            ) : isFailed && (
+              <p className="mt-1 text-[11px] text-red-400/80 break-words">
+                {step.error || 'Research failed.'}
+              </p>
+            )}
+            {isDone && step.quarantine && (
+              <p className="mt-1 text-[11px] text-amber-400/70">Included despite a prompt-injection warning</p>
+            )}
+          </div>
+          {isQuarantined && onReleaseStep && (
+            <button
+              onClick={() => onReleaseStep(step.id)}
+              className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-700 text-[11px] text-zinc-300 hover:text-white hover:border-zinc-500 transition-colors"
+            >
+              <ShieldIcon className="w-3 h-3" />
+              <span>Include anyway</span>
+            </button>
+          )}
+          {isFailed && onRetryStep && (
+            <button
+              onClick={() => onRetryStep(step.id)}
+              className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-700 text-[11px] text-zinc-300 hover:text-white hover:border-zinc-500 transition-colors"
+            >
+              <RefreshIcon className="w-3 h-3" />
+              <span>Retry step</span>
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // A step followed by the follow-ups it prompted, indented one level per generation
+  const renderBranch = (step: ResearchStep): React.ReactNode => {
+    const children = childrenOf(step.id);
+    return (
+      <div key={step.id} className="space-y-3">
+        {renderStep(step)}
+        {children.length > 0 && (
+          <div className="ml-4 pl-4 border-l border-zinc-800 space-y-3">
+            {children.map(renderBranch)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-baseline justify-between mb-6">
+        <h2 className="text-xl font-semibold text-zinc-200">Research Protocol</h2>
+        <span className="text-xs text-zinc-500 font-mono">
+          {plan.deep && <>round {rounds} / {plan.deep.maxDepth} · </>}
+          {doneCount} / {plan.steps.length} steps{failedCount > 0 && <span className="text-red-400"> · {failedCount} failed</span>}
+          {skippedCount > 0 && <span className="text-amber-400"> · {skippedCount} skipped</span>}
+        </span>
+      </div>
+      <div className="space-y-4">
+        {plan.steps.filter(s => (s.round || 0) === 0).map(renderBranch)}
+        {Array.from({ length: rounds }, (_, i) => i + 1).map(round => {
+          const roots = plan.steps.filter(s => s.round === round && isRoot(s));
+          return roots.length > 0 && (
+            <div key={round} className="space-y-3">
+              <h3 className="pt-2 text-[11px] font-semibold text-zinc-500 uppercase tracking-wider">Round {round} · New leads</h3>
+              {roots.map(renderBranch)}
+            </div>
+          );
+        })}
+        {analyzingRound !== undefined && (
+          <div className="flex items-center gap-2 p-4 rounded-lg border border-dashed border-indigo-500/40 text-xs text-indigo-300">
+            <SparklesIcon className="w-3 h-3 animate-pulse" />
+            <span>Analyst is reviewing the findings for gaps and contradictions (round {analyzingRound})...</span>
+          </div>
+        )}
+      </div>
+
+      {/* Failures hold the run until the user decides */}
+      {isSettled && blockingCount > 0 && onContinue && (
+        <div className="p-4 rounded-lg border border-amber-900/60 bg-amber-950/20 flex items-center justify-between gap-4">
+          <p className="text-xs text-amber-200/80">
+            {failedCount} step{failedCount > 1 ? 's' : ''} failed after automatic retries. Retry them, or write the report without them. They will be flagged as coverage gaps.
+          </p>
+          <button
+            onClick={onContinue}
+            disabled={doneCount === 0}
+            className="shrink-0 px-3 py-1.5 rounded-lg bg-zinc-100 text-zinc-900 text-xs font-medium hover:bg-white disabled:opacity-40 transition-colors"
+          >
+            Continue to report
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ReportRevision } from '../types';
+import { listSections } from '../services/revisions';
+import DiffView from './DiffView';
+import { ClockIcon, RefreshIcon, SparklesIcon } from './Icons';
+
+interface Props {
+  content: string;
+  revisions: ReportRevision[];
+  // Heading path of the section being rewritten
+  rewritingSection?: string;
+  // Omitted when the report can't be changed right now (read-only, or another change is underway)
+  onRewrite?: (path: string, instruction: string) => void;
+  onRestore?: (revisionId: string) => void;
+}
+
+const QUICK_INSTRUCTIONS = ['Expand with more detail', 'Make it more cautious', 'Shorten it', 'Simplify the language'];
+
+const KIND_LABELS: Record<ReportRevision['kind'], string> = {
+  report: 'Report',
+  section: 'Section',
+  'fact-check': 'Fact-check',
+  restore: 'Restore',
+};
+
+// Rewrites one section of the report and lists every version of it. Pick two revisions to compare them side by side.
+export default function RevisionPanel({ content, revisions, rewritingSection, onRewrite, onRestore }: Props) {
+  const sections = useMemo(() => listSections(content), [content]);
+  const [path, setPath] = useState('');
+  const [instruction, setInstruction] = useState('');
+  const [compared, setCompared] = useState<string[]>([]);
+
+  const selectedPath = sections.some(s => s.path === path) ? path : sections[0]?.path || '';
+  const current = revisions[revisions.length - 1];
+  // Older revision on the left
+  const [before, after] = compared
+    .map(id => revisions.findIndex(r => r.id === id))
+    .filter(i => i >= 0)
+    .sort((a, b) => a - b)
+    .map(i => revisions[i]);
+
+  const submit = (text: string) => {
+    if (!onRewrite || !selectedPath || !text.trim()) return;
+    onRewrite(selectedPath, text.trim());
+    setInstruction('');
+  };
+
+  // Keeps at most two picks; a third replaces the oldest pick
+  const toggleCompare = (id: string) =>
+    setCompared(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id].slice(-2));
+
+  const labelOf = (revision: ReportRevision) => `Revision ${revisions.indexOf(revision) + 1} · ${revision.label}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="mt-10 p-4 rounded-lg border border-zinc-800 bg-zinc-900/30 space-y-4"
+    >
+      <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Revisions</h3>
+
+      {rewritingSection ? (
+        <div className="flex items-center gap-2 p-3 rounded-lg border border-dashed border-indigo-500/40 text-xs text-indigo-300">
+          <SparklesIcon className="w-3 h-3 animate-pulse" />
+          <span>Reporter is rewriting "{rewritingSection}"...</span>
+        </div>
+      ) : onRewrite && sections.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={selectedPath}
+              onChange={e => setPath(e.target.value)}
+              className="w-1/3 min-w-0 bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-zinc-600"
+            >
+              {sections.map(section => (
+                <option key={section.path} value={section.path}>{section.path}</option>
+              ))}
+            </select>
+            <input
+              value={instruction}
+              onChange={e => setInstruction(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && submit(instruction)}
+              placeholder="How should this section change?"
+              className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-1.5 text-xs text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-zinc-600"
+            />
+            <button
+              onClick={() => submit(instruction)}
+              disabled={!instruction.trim()}
+              className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-100 text-zinc-900 text-xs font-medium hover:bg-white disabled:opacity-40 transition-colors"
+            >
+              <RefreshIcon className="w-3 h-3" />
+              <span>Rewrite</span>
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {QUICK_INSTRUCTIONS.map(quick => (
+              <button
+                key={quick}
+                onClick={() => submit(quick)}
+                className="px-2 py-0.5 rounded-full border border-zinc-800 text-[11px] text-zinc-400 hover:text-white hover:border-zinc-600 transition-colors"
+              >
+                {quick}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-1.5">
+        {[...revisions].reverse().map(revision => (
+          <li key={revision.id} className="flex items-center gap-2 p-2 rounded border border-zinc-800 text-xs">
+            <input
+              type="checkbox"
+              checked={compared.includes(revision.id)}
+              onChange={() => toggleCompare(revision.id)}
+              title="Compare"
+              className="accent-indigo-500"
+            />
+            <span className="shrink-0 px-1 py-px rounded border border-zinc-700 text-[10px] uppercase tracking-wider text-zinc-500">
+              {KIND_LABELS[revision.kind]}
+            </span>
+            <span className="flex-1 min-w-0 truncate text-zinc-300" title={revision.label}>
+              {revisions.indexOf(revision) + 1}. {revision.label}
+            </span>
+            <span className="shrink-0 flex items-center gap-1 text-[10px] text-zinc-600">
+              <ClockIcon className="w-3 h-3" />
+              {new Date(revision.createdAt).toLocaleString()}
+            </span>
+            {revision === current ? (
+              <span className="shrink-0 w-14 text-right text-[10px] text-green-400">Current</span>
+            ) : (
+              <button
+                onClick={() => onRestore?.(revision.id)}
+                disabled={!onRestore}
+                className="shrink-0 w-14 text-right text-[11px] text-zinc-400 hover:text-white disabled:opacity-40 transition-colors"
+              >
+                Restore
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {before && after ? (
+        <DiffView before={before.content} after={after.content} beforeLabel={labelOf(before)} afterLabel={labelOf(after)} />
+      ) : revisions.length > 1 && (
+        <p className="text-[11px] text-zinc-600">Tick two revisions to compare them.</p>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { ArtifactState } from '../types';
+import { PauseIcon, PlayIcon, StopIcon } from './Icons';
+
+interface Props {
+  phase: ArtifactState['phase'];
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+const buttonClass = "flex items-center gap-1 px-2 py-1 rounded border border-zinc-800 text-[11px] text-zinc-400 hover:text-white hover:border-zinc-600 transition-colors";
+
+// Stop / Pause / Resume for the artifact header. Only the actions valid in the current phase are shown.
+export default function RunControls({ phase, onPause, onResume, onStop }: Props) {
+  const canPause = phase === 'researching' || phase === 'reporting';
+  const canResume = phase === 'paused' || phase === 'cancelled';
+  const canStop = ['planning', 'reviewing', 'researching', 'reporting', 'paused'].includes(phase);
+
+  return (
+    <div className="flex items-center gap-1.5">
+      {canPause && (
+        <button onClick={onPause} className={buttonClass} title="Pause after cancelling in-flight requests">
+          <PauseIcon className="w-3 h-3" />
+          <span>Pause</span>
+        </button>
+      )}
+      {canResume && (
+        <button onClick={onResume} className={buttonClass} title="Continue from the first unfinished step">
+          <PlayIcon className="w-3 h-3" />
+          <span>Resume</span>
+        </button>
+      )}
+      {canStop && (
+        <button onClick={onStop} className={`${buttonClass} hover:text-red-400 hover:border-red-900`} title="Stop this run">
+          <StopIcon className="w-3 h-3" />
+          <span>Stop</span>
+        </button>
+      )}
+    </div>
+  );
+}
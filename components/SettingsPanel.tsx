@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { AgentName, ReportTemplate, ResearchSettings, SettingsPreset } from '../types';
+import { AGENT_NAMES, DEFAULT_SETTINGS, normalizeSettings, REPORT_WORD_TARGETS } from '../services/settings';
+import { templateFor } from '../services/templates';
+import { TrashIcon } from './Icons';
+import TemplateEditor from './TemplateEditor';
+
+interface Props {
+  settings?: ResearchSettings;
+  // Built-in presets first, then the user's saved ones
+  presets: SettingsPreset[];
+  // Model the active provider uses when an agent has none set
+  defaultModel: string;
+  onSave: (settings: ResearchSettings) => void;
+  onSavePreset: (name: string, settings: ResearchSettings) => void;
+  onDeletePreset: (id: string) => void;
+  // Built-in templates first, then the user's custom ones
+  templates: ReportTemplate[];
+  onSaveTemplate: (template: ReportTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  onClose: () => void;
+}
+
+const AGENT_LABELS: Record<AgentName, string> = {
+  planner: 'Planner',
+  researcher: 'Researcher',
+  analyst: 'Analyst',
+  reporter: 'Reporter',
+  critic: 'Fact-checker',
+  answerer: 'Follow-ups',
+  monitor: 'Change detector',
+  extractor: 'Graph extractor',
+};
+
+// Settings for this session's runs. Saved with the session, so reopening it later reproduces the configuration.
+export default function SettingsPanel({ settings = DEFAULT_SETTINGS, presets, defaultModel, onSave, onSavePreset, onDeletePreset, templates, onSaveTemplate, onDeleteTemplate, onClose }: Props) {
+  const [draft, setDraft] = useState<ResearchSettings>(normalizeSettings(settings));
+  const [presetName, setPresetName] = useState('');
+  // Template open in the editor, if any
+  const [editing, setEditing] = useState<ReportTemplate | null>(null);
+
+  const template = templateFor(draft);
+  // A session may carry a template that has since been deleted; keep it selectable
+  const templateOptions = templates.some(t => t.id === template.id) ? templates : [...templates, template];
+
+  const update = (patch: Partial<ResearchSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleApplyPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) setDraft(normalizeSettings(preset.settings));
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim(), normalizeSettings(draft));
+    setPresetName('');
+  };
+
+  const handleSelectTemplate = (id: string) => {
+    update({ template: templateOptions.find(t => t.id === id) });
+    setEditing(null);
+  };
+
+  // Built-in templates are edited as a copy
+  const handleEditTemplate = (copy: boolean) => setEditing(copy
+    ? { ...template, id: `template-${Date.now()}`, name: `${template.name} (copy)`, builtIn: undefined }
+    : template);
+
+  const handleSaveTemplate = (saved: ReportTemplate) => {
+    onSaveTemplate(saved);
+    update({ template: saved });
+    setEditing(null);
+  };
+
+  const handleDeleteTemplate = () => {
+    onDeleteTemplate(template.id);
+    update({ template: undefined });
+  };
+
+  const handleSave = () => {
+    onSave(normalizeSettings(draft));
+    onClose();
+  };
+
+  const fieldClass = "w-full bg-black/40 border border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500/50 placeholder:text-zinc-700";
+  const labelClass = "text-[11px] text-zinc-400";
+
+  return (
+    <div className="absolute top-14 right-4 w-96 max-h-[80vh] overflow-y-auto custom-scrollbar z-30 rounded-xl border border-zinc-800 bg-zinc-900 shadow-xl p-4 space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-zinc-200">Research settings</h3>
+        <p className="text-[11px] text-zinc-500 mt-1">Saved with this session. Changes apply from the next agent call.</p>
+      </div>
+
+      {/* Presets */}
+      <div className="space-y-2">
+        <span className={labelClass}>Presets</span>
+        <div className="flex flex-wrap gap-1.5">
+          {presets.map(preset => (
+            <span key={preset.id} className="flex items-center rounded-md border border-zinc-800 bg-black/30 text-[11px]">
+              <button onClick={() => handleApplyPreset(preset.id)} className="px-2 py-1 text-zinc-300 hover:text-white transition-colors">
+                {preset.name}
+              </button>
+              {!preset.builtIn && (
+                <button
+                  onClick={() => onDeletePreset(preset.id)}
+                  aria-label={`Delete preset ${preset.name}`}
+                  className="pr-1.5 text-zinc-600 hover:text-red-400 transition-colors"
+                >
+                  <TrashIcon className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Models */}
+      <div className="space-y-2">
+        <span className={labelClass}>Models</span>
+        <div className="grid grid-cols-[5.5rem_1fr] items-center gap-x-2 gap-y-1.5">
+          {AGENT_NAMES.map(agent => (
+            <React.Fragment key={agent}>
+              <span className="text-[11px] text-zinc-500">{AGENT_LABELS[agent]}</span>
+              <input
+                value={draft.models[agent] || ''}
+                onChange={(e) => update({ models: { ...draft.models, [agent]: e.target.value || undefined } })}
+                placeholder={defaultModel}
+                className={`${fieldClass} font-mono`}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      {/* Report template */}
+      <div className="space-y-2">
+        <span className={labelClass}>Report template</span>
+        <select value={template.id} onChange={(e) => handleSelectTemplate(e.target.value)} className={fieldClass}>
+          {templateOptions.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        {editing ? (
+          <TemplateEditor template={editing} onSave={handleSaveTemplate} onCancel={() => setEditing(null)} />
+        ) : (
+          <>
+            <p className="text-[11px] text-zinc-500">
+              {template.description} <span className="text-zinc-600">Sections: {template.sections.map(s => s.title).join(' · ')}</span>
+            </p>
+            <div className="flex gap-3 text-[11px]">
+              {!template.builtIn && (
+                <button onClick={() => handleEditTemplate(false)} className="text-zinc-500 hover:text-white transition-colors">Edit</button>
+              )}
+              <button onClick={() => handleEditTemplate(true)} className="text-zinc-500 hover:text-white transition-colors">Duplicate and edit</button>
+              <button
+                onClick={() => setEditing({ id: `template-${Date.now()}`, name: '', description: '', sections: [{ title: '', guidance: '' }] })}
+                className="text-zinc-500 hover:text-white transition-colors"
+              >
+                New template
+              </button>
+              {!template.builtIn && (
+                <button onClick={handleDeleteTemplate} className="text-zinc-500 hover:text-red-400 transition-colors">Delete</button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Planner and Reporter */}
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className={labelClass}>Plan steps (min–max)</span>
+          <div className="flex items-center gap-1.5">
+            <input type="number" min={1} max={10} value={draft.minSteps} onChange={(e) => update({ minSteps: Number(e.target.value) })} className={fieldClass} />
+            <span className="text-zinc-600">–</span>
+            <input type="number" min={1} max={12} value={draft.maxSteps} onChange={(e) => update({ maxSteps: Number(e.target.value) })} className={fieldClass} />
+          </div>
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Temperature · {draft.temperature.toFixed(1)}</span>
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.1}
+            value={draft.temperature}
+            onChange={(e) => update({ temperature: Number(e.target.value) })}
+            className="w-full accent-indigo-500"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Report length</span>
+          <select
+            value={draft.reportLength}
+            onChange={(e) => update({ reportLength: e.target.value as ResearchSettings['reportLength'] })}
+            className={fieldClass}
+          >
+            {(Object.keys(REPORT_WORD_TARGETS) as ResearchSettings['reportLength'][]).map(length => (
+              <option key={length} value={length}>{length} (~{REPORT_WORD_TARGETS[length]} words)</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Output language</span>
+          <input value={draft.language} onChange={(e) => update({ language: e.target.value })} placeholder="English" className={fieldClass} />
+        </label>
+      </div>
+
+      {/* Budget */}
+      <div className="space-y-1">
+        <span className={labelClass}>Budget per run (blank for no limit)</span>
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            type="number"
+            min={0}
+            step={10000}
+            value={draft.budget?.maxTokens ?? ''}
+            onChange={(e) => update({ budget: { ...draft.budget, maxTokens: e.target.value ? Number(e.target.value) : undefined } })}
+            placeholder="Max tokens"
+            className={fieldClass}
+          />
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={draft.budget?.maxCost ?? ''}
+            onChange={(e) => update({ budget: { ...draft.budget, maxCost: e.target.value ? Number(e.target.value) : undefined } })}
+            placeholder="Max cost (USD)"
+            className={fieldClass}
+          />
+        </div>
+        <p className="text-[11px] text-zinc-600">When the next step would go over, the remaining steps are skipped and the report is written from what was found.</p>
+      </div>
+
+      {/* Save as preset */}
+      <div className="flex items-center gap-2 pt-3 border-t border-zinc-800">
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+          placeholder="Save these settings as a preset..."
+          className={fieldClass}
+        />
+        <button
+          onClick={handleSavePreset}
+          disabled={!presetName.trim()}
+          className="shrink-0 px-2 py-1.5 rounded-md border border-zinc-700 text-[11px] text-zinc-300 hover:text-white hover:border-zinc-500 disabled:opacity-40 transition-colors"
+        >
+          Save preset
+        </button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs text-zinc-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button onClick={handleSave} className="px-3 py-1.5 rounded-lg bg-zinc-100 text-zinc-900 text-xs font-medium hover:bg-white transition-colors">
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { QualityTier, SourcePolicy } from '../types';
+import { emptySourcePolicy, normalizeDomain, QUALITY_TIERS } from '../services/sources';
+
+interface Props {
+  policy?: SourcePolicy;
+  onSave: (policy: SourcePolicy) => void;
+  onClose: () => void;
+}
+
+const toLines = (domains: string[]) => domains.join('\n');
+
+const parseDomains = (text: string) =>
+  [...new Set(text.split(/[\n,]/).map(normalizeDomain).filter(Boolean))];
+
+// One "domain = tier" per line; lines with an unknown tier are ignored
+const parseTiers = (text: string) => {
+  const tiers: Record<string, QualityTier> = {};
+  text.split('\n').forEach(line => {
+    const [domain, tier] = line.split('=').map(part => part.trim().toLowerCase());
+    if (domain && QUALITY_TIERS.includes(tier as QualityTier)) tiers[normalizeDomain(domain)] = tier as QualityTier;
+  });
+  return tiers;
+};
+
+// Per-session allow/block lists and tier overrides. Changes apply to steps researched afterwards.
+export default function SourcePolicyPanel({ policy = emptySourcePolicy, onSave, onClose }: Props) {
+  const [allow, setAllow] = useState(toLines(policy.allow));
+  const [block, setBlock] = useState(toLines(policy.block));
+  const [allowOnly, setAllowOnly] = useState(policy.allowOnly);
+  const [tiers, setTiers] = useState(Object.entries(policy.tiers).map(([domain, tier]) => `${domain} = ${tier}`).join('\n'));
+
+  const handleSave = () => {
+    onSave({ allow: parseDomains(allow), block: parseDomains(block), allowOnly, tiers: parseTiers(tiers) });
+    onClose();
+  };
+
+  const fieldClass = "w-full bg-black/40 border border-zinc-800 rounded-md px-3 py-2 text-xs text-zinc-300 font-mono focus:outline-none focus:border-indigo-500/50 placeholder:text-zinc-700 resize-none";
+
+  return (
+    <div className="absolute top-14 right-4 w-80 z-30 rounded-xl border border-zinc-800 bg-zinc-900 shadow-xl p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-zinc-200">Source rules</h3>
+        <p className="text-[11px] text-zinc-500 mt-1">For this session. Applied to each step as it finishes; subdomains are included.</p>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-[11px] text-zinc-400">Preferred domains (others are down-ranked)</span>
+        <textarea rows={3} value={allow} onChange={(e) => setAllow(e.target.value)} placeholder={"nature.com\nwho.int"} className={fieldClass} />
+      </label>
+      <label className="flex items-center gap-2 text-[11px] text-zinc-400 cursor-pointer">
+        <input type="checkbox" checked={allowOnly} onChange={(e) => setAllowOnly(e.target.checked)} className="accent-indigo-500" />
+        <span>Only keep sources from preferred domains</span>
+      </label>
+      <label className="block space-y-1">
+        <span className="text-[11px] text-zinc-400">Blocked domains</span>
+        <textarea rows={3} value={block} onChange={(e) => setBlock(e.target.value)} placeholder={"pinterest.com\ncontent-farm.example"} className={fieldClass} />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-[11px] text-zinc-400">Tier overrides ({QUALITY_TIERS.join(', ')})</span>
+        <textarea rows={3} value={tiers} onChange={(e) => setTiers(e.target.value)} placeholder="ourcompany.com = official" className={fieldClass} />
+      </label>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs text-zinc-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button onClick={handleSave} className="px-3 py-1.5 rounded-lg bg-zinc-100 text-zinc-900 text-xs font-medium hover:bg-white transition-colors">
+          Save rules
+        </button>
+      </div>
+    </div>
+  );
+}
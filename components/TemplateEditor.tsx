@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ReportTemplate, TemplateSection } from '../types';
+import { normalizeTemplate } from '../services/templates';
+import { PlusIcon, TrashIcon } from './Icons';
+
+interface Props {
+  // Starting point: a custom template to edit, or a copy of another template
+  template: ReportTemplate;
+  onSave: (template: ReportTemplate) => void;
+  onCancel: () => void;
+}
+
+// Edits the sections of a custom report template. Section guidance is read by both the Planner and the Reporter.
+export default function TemplateEditor({ template, onSave, onCancel }: Props) {
+  const [draft, setDraft] = useState<ReportTemplate>(template);
+
+  const updateSection = (index: number, patch: Partial<TemplateSection>) =>
+    setDraft(prev => ({ ...prev, sections: prev.sections.map((s, i) => i === index ? { ...s, ...patch } : s) }));
+
+  const removeSection = (index: number) =>
+    setDraft(prev => ({ ...prev, sections: prev.sections.filter((_, i) => i !== index) }));
+
+  const addSection = () =>
+    setDraft(prev => ({ ...prev, sections: [...prev.sections, { title: '', guidance: '' }] }));
+
+  const normalized = normalizeTemplate(draft);
+  const fieldClass = "w-full bg-black/40 border border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500/50 placeholder:text-zinc-700";
+
+  return (
+    <div className="space-y-2 rounded-lg border border-zinc-800 bg-black/20 p-3">
+      <input
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Template name"
+        className={fieldClass}
+      />
+      <input
+        value={draft.description}
+        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+        placeholder="Short description"
+        className={fieldClass}
+      />
+      <textarea
+        rows={2}
+        value={draft.guidance || ''}
+        onChange={(e) => setDraft({ ...draft, guidance: e.target.value })}
+        placeholder="Style rules for the whole report (optional)"
+        className={`${fieldClass} resize-none`}
+      />
+
+      <span className="block text-[11px] text-zinc-400 pt-1">Sections</span>
+      {draft.sections.map((section, index) => (
+        <div key={index} className="flex gap-1.5 items-start">
+          <span className="text-[10px] font-mono text-zinc-600 pt-2 w-4 shrink-0">{index + 1}.</span>
+          <div className="flex-1 space-y-1">
+            <input
+              value={section.title}
+              onChange={(e) => updateSection(index, { title: e.target.value })}
+              placeholder="Section title"
+              className={fieldClass}
+            />
+            <input
+              value={section.guidance}
+              onChange={(e) => updateSection(index, { guidance: e.target.value })}
+              placeholder="What this section should cover"
+              className={`${fieldClass} text-zinc-400`}
+            />
+          </div>
+          <button
+            onClick={() => removeSection(index)}
+            aria-label={`Remove section ${index + 1}`}
+            className="p-1.5 text-zinc-600 hover:text-red-400 transition-colors"
+          >
+            <TrashIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      <button onClick={addSection} className="flex items-center gap-1 text-[11px] text-zinc-500 hover:text-white transition-colors">
+        <PlusIcon className="w-3.5 h-3.5" />
+        <span>Add section</span>
+      </button>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onCancel} className="px-2 py-1 text-[11px] text-zinc-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(normalized)}
+          disabled={normalized.sections.length === 0}
+          className="px-2 py-1 rounded-md border border-zinc-700 text-[11px] text-zinc-200 hover:border-zinc-500 disabled:opacity-40 transition-colors"
+        >
+          Save template
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AgentName, ResearchStep, TraceCall, TraceEntry } from '../types';
+import { entryTime, isTraceCall, traceSpan } from '../services/trace';
+import { formatTokens } from '../services/usage';
+import { AlertIcon, ChevronDownIcon, ChevronRightIcon, DownloadIcon } from './Icons';
+
+interface Props {
+  trace: TraceEntry[];
+  // To name the step a call was made for
+  steps?: ResearchStep[];
+  onExport: () => void;
+}
+
+const AGENT_COLORS: Record<AgentName, string> = {
+  planner: 'bg-sky-500',
+  researcher: 'bg-indigo-500',
+  analyst: 'bg-violet-500',
+  reporter: 'bg-emerald-500',
+  answerer: 'bg-teal-500',
+  critic: 'bg-orange-500',
+  monitor: 'bg-cyan-500',
+  extractor: 'bg-fuchsia-500',
+};
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div>
+    <h5 className="text-[10px] uppercase tracking-wider text-zinc-500 mb-1">{label}</h5>
+    {children}
+  </div>
+);
+
+const Raw = ({ text }: { text: string }) => (
+  <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded border border-zinc-800 bg-zinc-950 p-2 font-mono text-[11px] text-zinc-300 custom-scrollbar">
+    {text}
+  </pre>
+);
+
+const CallDetails = ({ call }: { call: TraceCall }) => (
+  <div className="space-y-3 px-3 pb-3 text-xs">
+    <p className="font-mono text-[11px] text-zinc-500">
+      {call.provider} · {call.model}{call.temperature !== undefined && ` · temperature ${call.temperature}`} · started {new Date(call.startedAt).toLocaleTimeString()}
+    </p>
+    {call.error && (
+      <p className="text-red-400 break-words">{call.aborted ? 'Aborted: ' : ''}{call.error}</p>
+    )}
+    {call.systemInstruction && <Field label="System instruction"><Raw text={call.systemInstruction.trim()} /></Field>}
+    <Field label="Prompt"><Raw text={call.prompt} /></Field>
+    {call.schema !== undefined && <Field label="Response schema"><Raw text={JSON.stringify(call.schema, null, 2)} /></Field>}
+    {call.response !== undefined && <Field label={call.error || call.aborted ? 'Partial response' : 'Response'}><Raw text={call.response} /></Field>}
+    {!!call.sources?.length && (
+      <Field label="Sources">
+        <ul className="space-y-0.5">
+          {call.sources.map(source => (
+            <li key={source.uri} className="truncate text-zinc-400">{source.title} · <span className="text-zinc-600">{source.uri}</span></li>
+          ))}
+        </ul>
+      </Field>
+    )}
+    {call.grounding !== undefined && <Field label="Grounding metadata"><Raw text={JSON.stringify(call.grounding, null, 2)} /></Field>}
+  </div>
+);
+
+// Every agent call of the run on one timeline, with the failures reported along the way.
+// Click a call for its prompt, configuration, response and grounding; export the whole trace for a bug report.
+export default function TraceInspector({ trace, steps = [], onExport }: Props) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [hiddenAgents, setHiddenAgents] = useState<Set<AgentName>>(new Set());
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  const entries = useMemo(() => [...trace].sort((a, b) => entryTime(a) - entryTime(b)), [trace]);
+  const span = traceSpan(trace);
+  const calls = trace.filter(isTraceCall);
+  const agents = [...new Set(calls.map(call => call.agent))];
+  const failures = trace.filter(entry => !isTraceCall(entry) || entry.error).length;
+  const tokens = calls.reduce((sum, call) => sum + (call.usage ? call.usage.inputTokens + call.usage.outputTokens : 0), 0);
+
+  const shown = entries.filter(entry => isTraceCall(entry)
+    ? !hiddenAgents.has(entry.agent) && (!errorsOnly || !!entry.error)
+    : true);
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value); else next.add(value);
+    return next;
+  };
+
+  const queryOf = (stepId?: string) => steps.find(step => step.id === stepId)?.query;
+  const offset = (entry: TraceEntry) => `+${formatDuration(entryTime(entry) - span.start)}`;
+  const percent = (ms: number) => `${(ms / (span.end - span.start)) * 100}%`;
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-200">Trace</h2>
+          <p className="text-[11px] text-zinc-500 font-mono">
+            {calls.length} calls · {formatDuration(span.end - span.start)} · {formatTokens(tokens)} tok
+            {failures > 0 && <span className="text-red-400"> · {failures} failed</span>}
+          </p>
+        </div>
+        <button
+          onClick={onExport}
+          disabled={!trace.length}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-zinc-700 text-xs text-zinc-300 hover:text-white hover:border-zinc-500 disabled:opacity-40 transition-colors"
+        >
+          <DownloadIcon className="w-3 h-3" />
+          <span>Export JSON</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {agents.map(agent => (
+          <button
+            key={agent}
+            onClick={() => setHiddenAgents(toggle(hiddenAgents, agent))}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full border border-zinc-800 text-[10px] capitalize transition-opacity ${hiddenAgents.has(agent) ? 'opacity-40' : ''}`}
+          >
+            <span className={`w-2 h-2 rounded-full ${AGENT_COLORS[agent]}`} />
+            {agent}
+          </button>
+        ))}
+        <button
+          onClick={() => setErrorsOnly(!errorsOnly)}
+          className={`px-2 py-0.5 rounded-full border text-[10px] transition-colors ${errorsOnly ? 'border-red-800 text-red-300' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+        >
+          Failures only
+        </button>
+      </div>
+
+      {!trace.length && (
+        <p className="p-6 rounded-lg border border-dashed border-zinc-800 text-center text-xs text-zinc-500">
+          No agent calls have been recorded for this run yet.
+        </p>
+      )}
+
+      <ul className="space-y-1">
+        {shown.map(entry => {
+          if (!isTraceCall(entry)) {
+            return (
+              <li key={entry.id} className="flex items-start gap-2 px-3 py-1.5 rounded border border-red-900/60 bg-red-950/20 text-[11px]">
+                <AlertIcon className="w-3 h-3 mt-0.5 shrink-0 text-red-400" />
+                <span className="w-14 shrink-0 font-mono text-zinc-600">{offset(entry)}</span>
+                <span className="text-red-300 break-words">
+                  {entry.event}{queryOf(entry.stepId) && ` · ${queryOf(entry.stepId)}`}: {entry.message}
+                </span>
+              </li>
+            );
+          }
+
+          const isOpen = expanded.has(entry.id);
+          return (
+            <li key={entry.id} className={`rounded border ${entry.error ? 'border-red-900/60' : 'border-zinc-800'} bg-zinc-900/30`}>
+              <button
+                onClick={() => setExpanded(toggle(expanded, entry.id))}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-[11px]"
+              >
+                {isOpen ? <ChevronDownIcon className="w-3 h-3 shrink-0 text-zinc-500" /> : <ChevronRightIcon className="w-3 h-3 shrink-0 text-zinc-500" />}
+                <span className="w-14 shrink-0 font-mono text-zinc-600">{offset(entry)}</span>
+                <span className="w-20 shrink-0 capitalize text-zinc-300">{entry.agent}</span>
+                <span className="flex-1 min-w-0 truncate text-zinc-500" title={queryOf(entry.stepId)}>
+                  {queryOf(entry.stepId) || entry.method}
+                </span>
+                {/* Where the call sits in the run, and how long it took */}
+                <span className="relative hidden sm:block w-32 h-1.5 shrink-0 rounded bg-zinc-800">
+                  <span
+                    className={`absolute inset-y-0 rounded ${entry.error ? 'bg-red-500' : entry.aborted ? 'bg-amber-500' : AGENT_COLORS[entry.agent]}`}
+                    style={{ left: percent(entry.startedAt - span.start), width: `max(2px, ${percent(entry.durationMs)})` }}
+                  />
+                </span>
+                <span className="w-14 shrink-0 text-right font-mono text-zinc-500">{formatDuration(entry.durationMs)}</span>
+                <span className="w-14 shrink-0 text-right font-mono text-zinc-600">
+                  {entry.usage ? formatTokens(entry.usage.inputTokens + entry.usage.outputTokens) : '–'}
+                </span>
+              </button>
+              {isOpen && <CallDetails call={entry} />}
+            </li>
+          );
+        })}
+      </ul>
+    </motion.div>
+  );
+}
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { RunBudget, UsageRecord } from '../types';
+import { formatCost, formatTokens, summarizeUsage, usageByAgent } from '../services/usage';
+
+interface Props {
+  usage: UsageRecord[];
+  budget?: RunBudget;
+  // The run stopped researching because of the budget
+  budgetExceeded?: boolean;
+}
+
+// Running token total and estimated cost for the session. Click for the per-agent breakdown.
+export default function UsageBadge({ usage, budget, budgetExceeded }: Props) {
+  const [open, setOpen] = useState(false);
+  const total = summarizeUsage(usage);
+  const cost = `${formatCost(total.cost)}${total.unpricedCalls ? '+' : ''}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Tokens used and estimated cost"
+        className={`text-[10px] px-2 py-1 rounded font-mono border transition-colors ${
+          budgetExceeded ? 'border-amber-900 text-amber-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+        }`}
+      >
+        {formatTokens(total.totalTokens)} tok · {cost}
+      </button>
+      {open && (
+        <div className="absolute right-0 top-8 w-72 z-30 rounded-lg border border-zinc-800 bg-zinc-900 shadow-xl p-3 space-y-2 text-[11px]">
+          <table className="w-full font-mono">
+            <thead>
+              <tr className="text-zinc-500 text-left">
+                <th className="font-normal">Agent</th>
+                <th className="font-normal text-right">Calls</th>
+                <th className="font-normal text-right">In</th>
+                <th className="font-normal text-right">Out</th>
+                <th className="font-normal text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="text-zinc-300">
+              {[...usageByAgent(usage).entries()].map(([agent, summary]) => (
+                <tr key={agent}>
+                  <td className="capitalize">{agent}</td>
+                  <td className="text-right">{summary.calls}</td>
+                  <td className="text-right">{formatTokens(summary.inputTokens)}</td>
+                  <td className="text-right">{formatTokens(summary.outputTokens)}</td>
+                  <td className="text-right">{formatCost(summary.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {total.unpricedCalls > 0 && (
+            <p className="text-zinc-500">{total.unpricedCalls} call{total.unpricedCalls > 1 ? 's' : ''} used a model without a known price.</p>
+          )}
+          {budget && (
+            <p className={budgetExceeded ? 'text-amber-400' : 'text-zinc-500'}>
+              Budget: {[budget.maxTokens && `${formatTokens(budget.maxTokens)} tokens`, budget.maxCost && formatCost(budget.maxCost)].filter(Boolean).join(' / ')}
+              {budgetExceeded && ' · reached, remaining steps were skipped'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
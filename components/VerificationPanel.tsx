@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ClaimVerdict, ReportVerification, ResearchStep } from '../types';
+import { AlertIcon, CheckIcon, RefreshIcon, SparklesIcon } from './Icons';
+
+interface Props {
+  verification?: ReportVerification;
+  verifying?: boolean;
+  revising?: boolean;
+  steps: ResearchStep[];
+  // Omitted when the report can't be revised right now (read-only, or still being written)
+  onRevise?: () => void;
+}
+
+const VERDICT_STYLES: Record<ClaimVerdict, string> = {
+  supported: 'border-green-900/70 text-green-400/90',
+  unsupported: 'border-amber-900/70 text-amber-400/90',
+  contradicted: 'border-red-900/70 text-red-400/90',
+};
+
+// Summary of the Critic's fact-check. Flagged claims link to their highlight in the report.
+export default function VerificationPanel({ verification, verifying, revising, steps, onRevise }: Props) {
+  const [showSupported, setShowSupported] = useState(false);
+
+  if (verifying || revising) {
+    return (
+      <div className="mt-10 flex items-center gap-2 p-4 rounded-lg border border-dashed border-indigo-500/40 text-xs text-indigo-300">
+        <SparklesIcon className="w-3 h-3 animate-pulse" />
+        <span>{revising ? 'Reporter is rewriting the flagged claims...' : 'Fact-checker is checking the report against the findings...'}</span>
+      </div>
+    );
+  }
+  if (!verification) return null;
+
+  const count = (verdict: ClaimVerdict) => verification.claims.filter(c => c.verdict === verdict).length;
+  const flagged = verification.claims.filter(c => c.verdict !== 'supported');
+  const listed = showSupported ? verification.claims : flagged;
+  const queryOf = (stepId: string) => steps.find(s => s.id === stepId)?.query || stepId;
+
+  const scrollToClaim = (id: string) =>
+    document.querySelector(`[data-claim="${id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="mt-10 p-4 rounded-lg border border-zinc-800 bg-zinc-900/30 space-y-3"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+            Fact-check{verification.revised && <span className="ml-2 normal-case font-normal text-zinc-600">after revision</span>}
+          </h3>
+          <p className="mt-1 text-xs text-zinc-400">
+            {verification.claims.length} claims checked ·{' '}
+            <span className="text-green-400">{count('supported')} supported</span> ·{' '}
+            <span className="text-amber-400">{count('unsupported')} unsupported</span> ·{' '}
+            <span className="text-red-400">{count('contradicted')} contradicted</span>
+          </p>
+        </div>
+        {flagged.length > 0 && onRevise && (
+          <button
+            onClick={onRevise}
+            className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-100 text-zinc-900 text-xs font-medium hover:bg-white transition-colors"
+          >
+            <RefreshIcon className="w-3 h-3" />
+            <span>Revise flagged claims</span>
+          </button>
+        )}
+      </div>
+
+      {listed.length > 0 && (
+        <ul className="space-y-2">
+          {listed.map(claim => (
+            <li key={claim.id}>
+              <button
+                onClick={() => scrollToClaim(claim.id)}
+                disabled={claim.verdict === 'supported'}
+                className="w-full text-left flex gap-2 p-2 rounded border border-zinc-800 hover:border-zinc-700 disabled:hover:border-zinc-800 transition-colors"
+              >
+                {claim.verdict === 'supported'
+                  ? <CheckIcon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-green-500" />
+                  : <AlertIcon className={`w-3.5 h-3.5 mt-0.5 shrink-0 ${claim.verdict === 'contradicted' ? 'text-red-400' : 'text-amber-400'}`} />}
+                <span className="min-w-0 text-xs">
+                  <span className="text-zinc-300">{claim.claim}</span>
+                  <span className={`ml-2 px-1 py-px rounded border text-[10px] uppercase tracking-wider ${VERDICT_STYLES[claim.verdict]}`}>{claim.verdict}</span>
+                  {claim.evidence && <span className="block mt-1 text-zinc-500">{claim.evidence}</span>}
+                  {!!claim.stepIds?.length && (
+                    <span className="block mt-1 text-[10px] text-zinc-600 truncate">Checked against: {claim.stepIds.map(queryOf).join(' · ')}</span>
+                  )}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {count('supported') > 0 && (
+        <button onClick={() => setShowSupported(!showSupported)} className="text-[11px] text-zinc-500 hover:text-white transition-colors">
+          {showSupported ? 'Show flagged claims only' : `Show all ${verification.claims.length} claims`}
+        </button>
+      )}
+    </motion.div>
+  );
+}
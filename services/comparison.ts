@@ -0,0 +1,73 @@
+import { ComparisonCell, ComparisonSpec, ResearchStep } from "../types";
+import { citationNumbers, collectSources, sourceKey } from "./sources";
+
+// --- COMPARISON MODE ---
+// "X vs Y vs Z" research: the plan is one step per entity × criterion cell, and the report opens with a
+// matrix whose cells cite their step's sources and link to the step's finding.
+
+// Larger grids make plans nobody wants to review
+export const MAX_COMPARISON_CELLS = 36;
+
+// "Apple, Google; Microsoft" or one per line; duplicates are dropped
+export const parseList = (text: string) => {
+  const items = text.split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
+  return [...new Map(items.map(item => [item.toLowerCase(), item])).values()];
+};
+
+export const comparisonSize = (spec: ComparisonSpec) => spec.entities.length * spec.criteria.length;
+
+export const isValidComparison = (spec: ComparisonSpec) =>
+  spec.entities.length >= 2 && spec.criteria.length >= 1 && comparisonSize(spec) <= MAX_COMPARISON_CELLS;
+
+export const comparisonTopic = (spec: ComparisonSpec) =>
+  `${spec.entities.join(' vs ')}: ${spec.criteria.join(', ')}`;
+
+export const cellKey = (cell: { entity: string; criterion: string }) => `${cell.entity} × ${cell.criterion}`;
+
+// The step for every cell, criterion by criterion. Queries the Planner didn't phrase fall back to "<entity> <criterion>".
+export const comparisonSteps = (spec: ComparisonSpec, queries: Partial<Record<string, { query?: string; notes?: string }>> = {}): ResearchStep[] =>
+  spec.criteria.flatMap(criterion => spec.entities.map(entity => ({ entity, criterion })))
+    .map((cell, i) => ({
+      id: `step-${i}`,
+      query: queries[cellKey(cell)]?.query || `${cell.entity} ${cell.criterion}`,
+      notes: queries[cellKey(cell)]?.notes || undefined,
+      status: 'pending' as const,
+      cell
+    }));
+
+// --- FINDING LINKS ---
+// Matrix cells link to their finding with an in-page anchor. The app opens the finding; exports drop the link.
+const FINDING_PREFIX = '#finding-';
+const FINDING_LINK = /\s*\[↗\]\(#finding-[\w-]+\)/g;
+
+export const findingLink = (stepId: string) => `[↗](${FINDING_PREFIX}${stepId})`;
+
+// The step id behind a finding link, or undefined for any other href
+export const findingStepId = (href: string) => href.startsWith(FINDING_PREFIX) ? href.slice(FINDING_PREFIX.length) : undefined;
+
+export const stripFindingLinks = (markdown: string) => markdown.replace(FINDING_LINK, '');
+
+// --- MATRIX ---
+const tableCell = (text: string) => text.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+
+// Markdown table with a row per criterion and a column per entity. Each cell cites the sources of its step
+// (at most three) and links to its finding; cells whose step failed say so.
+export const formatComparisonMatrix = (spec: ComparisonSpec, cells: ComparisonCell[], steps: ResearchStep[]) => {
+  const numbers = citationNumbers(collectSources(steps));
+  const cellText = (entity: string, criterion: string) => {
+    const step = steps.find(s => s.cell?.entity === entity && s.cell.criterion === criterion);
+    if (!step || step.status !== 'completed') return '*Not researched*';
+    const summary = cells.find(c => c.stepId === step.id)?.summary || 'See the finding';
+    const cited = [...new Set((step.sources || []).map(source => numbers.get(sourceKey(source))))]
+      .filter((n): n is number => n !== undefined)
+      .slice(0, 3);
+    return `${tableCell(summary)}${cited.length ? ` [${cited.join(', ')}]` : ''} ${findingLink(step.id)}`;
+  };
+
+  return [
+    `| Criterion | ${spec.entities.map(tableCell).join(' | ')} |`,
+    `| --- | ${spec.entities.map(() => '---').join(' | ')} |`,
+    ...spec.criteria.map(criterion =>
+      `| **${tableCell(criterion)}** | ${spec.entities.map(entity => cellText(entity, criterion)).join(' | ')} |`)
+  ].join('\n');
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { LocalDocument } from '../types';
+import { chunkText, retrievePassages, tokenize } from './documents';
+
+const doc = (id: string, chunks: string[]): LocalDocument => ({ id, name: `${id}.md`, mimeType: 'text/markdown', size: 0, addedAt: 0, chunks });
+
+// A paragraph of `words` distinct words, so overlaps can be traced back to where they came from
+const paragraph = (prefix: string, words: number) => Array.from({ length: words }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('chunkText', () => {
+  it('returns nothing for an empty or blank document', () => {
+    expect(chunkText('')).toEqual([]);
+    expect(chunkText('  \n\n \t \r\n')).toEqual([]);
+  });
+
+  it('keeps short text in one chunk and normalizes whitespace', () => {
+    expect(chunkText('First  paragraph.\r\n\r\nSecond\tparagraph.')).toEqual(['First paragraph.\n\nSecond paragraph.']);
+  });
+
+  it('packs paragraphs up to the chunk size and never cuts one in half', () => {
+    const paragraphs = ['a', 'b', 'c', 'd'].map(prefix => paragraph(prefix, 10));
+    const chunks = chunkText(paragraphs.join('\n\n'), 100, 0);
+    expect(chunks.every(c => c.length <= 100)).toBe(true);
+    paragraphs.forEach(p => expect(chunks.some(c => c.includes(p))).toBe(true));
+  });
+
+  it('starts each chunk with the end of the previous one, on a word boundary', () => {
+    const chunks = chunkText([paragraph('a', 20), paragraph('b', 20), paragraph('c', 20)].join('\n\n'), 120, 30);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.slice(1).forEach((chunk, i) => {
+      const firstWord = chunk.split(/\s/)[0];
+      expect(chunks[i]).toContain(firstWord);
+      expect(chunks[i].endsWith(chunk.split('\n\n')[0])).toBe(true);
+    });
+  });
+
+  it('splits oversized paragraphs at sentence ends', () => {
+    const sentence = 'Solar capacity grew again this year.';
+    const chunks = chunkText(Array(10).fill(sentence).join(' '), 80, 0);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.length <= 80 && c.endsWith('.'))).toBe(true);
+  });
+});
+
+describe('retrievePassages', () => {
+  const documents = [
+    doc('energy', [
+      'Solar panels convert sunlight into electricity.',
+      'Wind turbines and solar farms supply the grid. Solar output peaks at noon; solar storage smooths it.',
+      'Hydropower is the oldest renewable source.',
+    ]),
+    doc('finance', ['Solar bonds financed the new farms.', 'Interest rates rose in 2023.']),
+  ];
+
+  it('ranks chunks by BM25 score, best first', () => {
+    const passages = retrievePassages(documents, 'solar storage');
+    expect(passages[0]).toMatchObject({ docId: 'energy', chunkIndex: 1 });
+    expect(passages.map(p => p.score)).toEqual([...passages.map(p => p.score)].sort((a, b) => b - a));
+    expect(passages.every(p => p.score > 0)).toBe(true);
+  });
+
+  it('weights rare terms over common ones', () => {
+    const [best] = retrievePassages(documents, 'solar hydropower');
+    expect(best).toMatchObject({ docId: 'energy', chunkIndex: 2 });
+  });
+
+  it('leaves out chunks without any query term and respects the limit', () => {
+    expect(retrievePassages(documents, 'interest rates').map(p => p.text)).toEqual(['Interest rates rose in 2023.']);
+    expect(retrievePassages(documents, 'solar', 2)).toHaveLength(2);
+  });
+
+  it('returns nothing without documents or meaningful query terms', () => {
+    expect(retrievePassages([], 'solar')).toEqual([]);
+    expect(retrievePassages(documents, 'what is the')).toEqual([]);
+    expect(tokenize('What is the Solar-panel output?')).toEqual(['solar', 'panel', 'output']);
+  });
+});
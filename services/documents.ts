@@ -0,0 +1,165 @@
+import { LocalDocument, Source } from "../types";
+
+// --- LOCAL DOCUMENTS ---
+// Files the user attaches are read, chunked and indexed entirely in the browser.
+// The Researcher gets the best-matching passages for each step and cites the documents like web sources.
+
+export interface Passage {
+  docId: string;
+  docName: string;
+  chunkIndex: number;
+  text: string;
+  score: number;
+}
+
+export const ACCEPTED_DOCUMENT_TYPES = '.txt,.md,.markdown,.html,.htm,.pdf,text/plain,text/markdown,text/html,application/pdf';
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+export const DEFAULT_PASSAGE_COUNT = 4;
+
+export const documentUri = (docId: string) => `doc:${docId}`;
+
+export const isDocumentSource = (source: Source) => source.type === 'document';
+
+export const documentSource = (doc: Pick<LocalDocument, 'id' | 'name'>): Source => ({
+  type: 'document',
+  title: doc.name,
+  uri: documentUri(doc.id)
+});
+
+// --- EXTRACTION ---
+const extension = (name: string) => name.toLowerCase().split('.').pop() || '';
+
+const htmlToText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, template').forEach(el => el.remove());
+  // Keep block boundaries as paragraph breaks so chunking can use them
+  doc.querySelectorAll('p, div, section, article, li, h1, h2, h3, h4, h5, h6, tr, br, pre, blockquote').forEach(el => {
+    el.append('\n\n');
+  });
+  return doc.body.textContent || '';
+};
+
+// pdf.js is only loaded once a PDF is attached
+const pdfToText = async (data: ArrayBuffer) => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = `https://aistudiocdn.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  }
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    pages.push(content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join(''));
+  }
+  return pages.join('\n\n');
+};
+
+export const extractText = async (file: File): Promise<string> => {
+  const ext = extension(file.name);
+  if (file.type === 'application/pdf' || ext === 'pdf') return pdfToText(await file.arrayBuffer());
+  if (file.type === 'text/html' || ext === 'html' || ext === 'htm') return htmlToText(await file.text());
+  if (file.type.startsWith('text/') || ['txt', 'md', 'markdown'].includes(ext)) return file.text();
+  throw new Error(`Unsupported file type: ${file.name}. Attach text, Markdown, HTML or PDF files.`);
+};
+
+// --- CHUNKING ---
+// Packs paragraphs into chunks of about CHUNK_SIZE characters. Consecutive chunks share a little
+// trailing context so a fact split across a boundary can still be found.
+export const chunkText = (text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] => {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    // Oversized paragraphs are cut at sentence ends, or hard-cut as a last resort
+    .flatMap(p => p.length <= size ? [p] : (p.match(new RegExp(`[^]{1,${size}}(?:[.!?](?=\\s)|$)|[^]{1,${size}}`, 'g')) || [p]).map(piece => piece.trim()));
+
+  const chunks: string[] = [];
+  let current = '';
+  paragraphs.forEach(paragraph => {
+    if (current && current.length + paragraph.length + 2 > size) {
+      chunks.push(current);
+      // slice(-0) would be the whole chunk
+      const tail = overlap > 0 ? current.slice(-overlap) : '';
+      current = tail.slice(tail.indexOf(' ') + 1);
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current) chunks.push(current);
+  return chunks.map(c => c.trim());
+};
+
+export const readDocument = async (file: File): Promise<LocalDocument> => {
+  const text = await extractText(file);
+  const chunks = chunkText(text);
+  if (chunks.length === 0) throw new Error(`No readable text found in ${file.name}.`);
+  return {
+    id: `doc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name,
+    mimeType: file.type || extension(file.name),
+    size: file.size,
+    addedAt: Date.now(),
+    chunks
+  };
+};
+
+// --- RETRIEVAL ---
+// Okapi BM25 over chunks. Term counts are computed once per document and cached.
+const STOPWORDS = new Set(('a an and are as at be by for from has have in is it its of on or that the this to was were ' +
+  'what when where which who why how with will would can could should about into than then there these those').split(' '));
+
+export const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+interface IndexedChunk {
+  terms: Map<string, number>;
+  length: number;
+}
+
+const chunkIndex = new WeakMap<LocalDocument, IndexedChunk[]>();
+
+const indexDocument = (doc: LocalDocument) => {
+  let indexed = chunkIndex.get(doc);
+  if (!indexed) {
+    indexed = doc.chunks.map(chunk => {
+      const tokens = tokenize(chunk);
+      const terms = new Map<string, number>();
+      tokens.forEach(t => terms.set(t, (terms.get(t) || 0) + 1));
+      return { terms, length: tokens.length };
+    });
+    chunkIndex.set(doc, indexed);
+  }
+  return indexed;
+};
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Best-matching passages across all documents, highest score first. Chunks sharing no term with the query are skipped.
+export const retrievePassages = (documents: LocalDocument[], query: string, limit = DEFAULT_PASSAGE_COUNT): Passage[] => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (documents.length === 0 || queryTerms.length === 0) return [];
+
+  const entries = documents.flatMap(doc => indexDocument(doc).map((chunk, chunkIndex) => ({ doc, chunk, chunkIndex })));
+  const avgLength = entries.reduce((sum, e) => sum + e.chunk.length, 0) / entries.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const df = entries.filter(e => e.chunk.terms.has(term)).length;
+    return [term, Math.log(1 + (entries.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  return entries
+    .map(({ doc, chunk, chunkIndex }) => {
+      const score = queryTerms.reduce((sum, term) => {
+        const tf = chunk.terms.get(term) || 0;
+        if (!tf) return sum;
+        return sum + idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * chunk.length / avgLength));
+      }, 0);
+      return { docId: doc.id, docName: doc.name, chunkIndex, text: doc.chunks[chunkIndex], score };
+    })
+    .filter(p => p.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
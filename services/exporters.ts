@@ -0,0 +1,170 @@
+import { ResearchPlan, Source } from "../types";
+import { stripFindingLinks } from "./comparison";
+import { isDocumentSource } from "./documents";
+import { escapeHtml, markdownToHtml } from "./markdown";
+
+// --- REPORT EXPORT ---
+// Turns a finished run into files that live outside the app.
+
+export interface ExportInput {
+  title: string;
+  report: string;
+  plan: ResearchPlan | null;
+  sources: Source[];
+}
+
+// Self-contained snapshot of a run that can be re-imported (read-only)
+export interface ResearchBundle {
+  format: 'deepdive-bundle';
+  version: 1;
+  exportedAt: number;
+  title: string;
+  report: string;
+  plan: ResearchPlan | null;
+  sources: Source[];
+}
+
+// Only http(s) links make it into exported documents
+const safeUrl = (uri: string) => /^https?:\/\//i.test(uri) ? uri : '#';
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'report';
+
+// --- MARKDOWN ---
+// Comparison matrix links to findings only work inside the app, so the document exports drop them
+export const toMarkdown = ({ report: content, sources }: ExportInput) => {
+  const report = stripFindingLinks(content);
+  if (sources.length === 0) return report.trim() + '\n';
+  const references = sources
+    .map((s, i) => isDocumentSource(s) ? `${i + 1}. ${s.title} (attached document)` : `${i + 1}. [${s.title}](${s.uri})`)
+    .join('\n');
+  return `${report.trim()}\n\n## References\n\n${references}\n`;
+};
+
+// --- HTML ---
+const STYLES = `
+  body { font-family: 'Inter', -apple-system, 'Segoe UI', sans-serif; max-width: 760px; margin: 48px auto; padding: 0 24px; color: #18181b; line-height: 1.65; }
+  h1 { font-size: 2rem; border-bottom: 1px solid #e4e4e7; padding-bottom: 8px; }
+  h2 { font-size: 1.35rem; margin-top: 2rem; }
+  h3 { font-size: 1.1rem; }
+  ul, ol { padding-left: 1.25rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { border-bottom: 1px solid #e4e4e7; padding: 6px 10px; text-align: left; vertical-align: top; }
+  pre { background: #f4f4f5; padding: 12px; border-radius: 6px; overflow-x: auto; }
+  code { font-family: 'JetBrains Mono', monospace; font-size: 0.85em; }
+  blockquote { border-left: 3px solid #d4d4d8; margin-left: 0; padding-left: 1rem; color: #52525b; }
+  a { color: #4f46e5; }
+  .references { margin-top: 3rem; border-top: 1px solid #e4e4e7; padding-top: 1rem; font-size: 0.85rem; }
+  .references li { margin-bottom: 6px; word-break: break-all; }
+  .meta { color: #71717a; font-size: 0.8rem; }
+`;
+
+const PRINT_STYLES = `
+  @page { margin: 20mm; }
+  @media print {
+    body { margin: 0; max-width: none; font-size: 11pt; }
+    h1, h2, h3 { break-after: avoid; }
+    li, p, tr, pre, blockquote { break-inside: avoid; }
+    a { color: inherit; text-decoration: none; }
+    .references a::after { content: " (" attr(href) ")"; font-size: 0.8em; color: #52525b; }
+  }
+`;
+
+// Exports load nothing and run nothing; the print view only runs its own print() call
+const contentPolicy = (print: boolean) =>
+  `default-src 'none'; style-src 'unsafe-inline'${print ? "; script-src 'unsafe-inline'" : ''}`;
+
+// Prints once loaded and tells the app it can remove the frame
+const PRINT_SCRIPT = `<script>
+window.addEventListener('load', () => {
+  window.print();
+  parent.postMessage('deepdive-print-done', '*');
+});
+</script>`;
+
+export const toHtml = ({ title, report, sources }: ExportInput, { print = false } = {}) => {
+  const references = sources.length
+    ? `<section class="references"><h2>References</h2><ol>${sources.map((s, i) =>
+        isDocumentSource(s)
+          ? `<li id="ref-${i + 1}">${escapeHtml(s.title)} <span class="meta">(attached document)</span></li>`
+          : `<li id="ref-${i + 1}"><a href="${escapeHtml(safeUrl(s.uri))}">${escapeHtml(s.title)}</a></li>`).join('')}</ol></section>`
+    : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta http-equiv="Content-Security-Policy" content="${contentPolicy(print)}" />
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}${print ? PRINT_STYLES : ''}</style>
+</head>
+<body>
+<p class="meta">DeepDive research report · ${escapeHtml(new Date().toLocaleDateString())}</p>
+${markdownToHtml(stripFindingLinks(report))}
+${references}
+${print ? PRINT_SCRIPT : ''}
+</body>
+</html>
+`;
+};
+
+// --- JSON BUNDLE ---
+export const toJsonBundle = ({ title, report, plan, sources }: ExportInput): string => {
+  const bundle: ResearchBundle = {
+    format: 'deepdive-bundle',
+    version: 1,
+    exportedAt: Date.now(),
+    title,
+    report,
+    plan,
+    sources,
+  };
+  return JSON.stringify(bundle, null, 2);
+};
+
+export const parseJsonBundle = (text: string): ResearchBundle => {
+  const data = JSON.parse(text);
+  if (data?.format !== 'deepdive-bundle' || data.version !== 1) {
+    throw new Error("Not a DeepDive research bundle.");
+  }
+  if (typeof data.title !== 'string' || typeof data.report !== 'string' || !Array.isArray(data.sources)) {
+    throw new Error("Research bundle is missing its title, report or sources.");
+  }
+  if (!data.sources.every((s: any) => typeof s?.uri === 'string' && typeof s.title === 'string')) {
+    throw new Error("Research bundle has a malformed source.");
+  }
+  // The viewer reads the plan's steps, so a plan must be complete or absent
+  const { plan } = data;
+  if (plan !== null && plan !== undefined && (typeof plan?.topic !== 'string' || !Array.isArray(plan.steps)
+    || !plan.steps.every((step: any) => typeof step?.id === 'string' && typeof step.query === 'string'))) {
+    throw new Error("Research bundle has a malformed plan.");
+  }
+  return { ...data, plan: plan ?? null } as ResearchBundle;
+};
+
+// --- BROWSER HELPERS ---
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Prints the print-optimized layout (Save as PDF) from a hidden frame. The frame is sandboxed without
+// allow-same-origin, so nothing in the report can reach the app's storage or API key.
+export const openPrintView = (input: ExportInput) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('sandbox', 'allow-scripts allow-modals');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+  frame.srcdoc = toHtml(input, { print: true });
+
+  const onMessage = (event: MessageEvent) => {
+    if (event.source !== frame.contentWindow || event.data !== 'deepdive-print-done') return;
+    window.removeEventListener('message', onMessage);
+    frame.remove();
+  };
+  window.addEventListener('message', onMessage);
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,141 @@
+import { EntityType, GraphEntity, GraphMention, GraphRelation, KnowledgeGraph, ResearchSession, ResearchStep } from "../types";
+
+// --- KNOWLEDGE GRAPH ---
+// The Extractor turns each finding into entities and relationships. Every session keeps its own graph;
+// the cross-topic graph is the merge of all saved sessions, linked through entity ids that only depend on
+// type and name.
+
+export const ENTITY_TYPES: EntityType[] = ['person', 'organization', 'product', 'place', 'date', 'figure', 'concept'];
+
+export const emptyGraph = (): KnowledgeGraph => ({ entities: [], relations: [] });
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}%$€£.]+/gu, ' ').trim();
+
+export const entityId = (type: EntityType, name: string) => `${type}:${normalizeName(name)}`;
+
+const relationId = (from: string, label: string, to: string) => `${from}|${label.trim().toLowerCase()}|${to}`;
+
+// What the Extractor returns for one finding; relations refer to entities by name
+export interface RawExtraction {
+  entities: { name: string; type: string }[];
+  relations: { from: string; to: string; label: string; evidence?: string }[];
+}
+
+// One step's extraction as a graph. Unknown types become concepts; relations to names that weren't
+// extracted as entities are dropped.
+export const graphFragment = (step: ResearchStep, raw: RawExtraction): KnowledgeGraph => {
+  const mention: GraphMention = { stepId: step.id, query: step.query, sources: step.sources || [] };
+  const byName = new Map<string, GraphEntity>();
+  raw.entities.filter(e => e.name?.trim()).forEach(e => {
+    const type = ENTITY_TYPES.includes(e.type as EntityType) ? e.type as EntityType : 'concept';
+    const key = normalizeName(e.name);
+    if (!key || byName.has(key)) return;
+    byName.set(key, { id: entityId(type, e.name), name: e.name.trim(), type, mentions: [mention] });
+  });
+
+  const relations = raw.relations.flatMap(r => {
+    const from = byName.get(normalizeName(r.from || ''));
+    const to = byName.get(normalizeName(r.to || ''));
+    if (!from || !to || from === to || !r.label?.trim()) return [];
+    return [{ id: relationId(from.id, r.label, to.id), from: from.id, to: to.id, label: r.label.trim(), evidence: r.evidence || undefined, mentions: [mention] }];
+  });
+  return mergeGraphs([{ entities: [...byName.values()], relations }]);
+};
+
+const mentionKey = (mention: GraphMention) => `${mention.sessionId || ''}/${mention.stepId}`;
+
+const mergeMentions = (a: GraphMention[], b: GraphMention[]) => {
+  const seen = new Set(a.map(mentionKey));
+  return [...a, ...b.filter(m => !seen.has(mentionKey(m)))];
+};
+
+// Entities and relations with the same id become one, with the mentions of both
+export const mergeGraphs = (graphs: KnowledgeGraph[]): KnowledgeGraph => {
+  const entities = new Map<string, GraphEntity>();
+  const relations = new Map<string, GraphRelation>();
+  graphs.forEach(graph => {
+    graph.entities.forEach(e => {
+      const known = entities.get(e.id);
+      entities.set(e.id, known ? { ...known, mentions: mergeMentions(known.mentions, e.mentions) } : e);
+    });
+    graph.relations.forEach(r => {
+      const known = relations.get(r.id);
+      relations.set(r.id, known ? { ...known, evidence: known.evidence || r.evidence, mentions: mergeMentions(known.mentions, r.mentions) } : r);
+    });
+  });
+  return { entities: [...entities.values()], relations: [...relations.values()] };
+};
+
+// Tags every mention with the session it comes from
+const withSession = (graph: KnowledgeGraph, sessionId: string, topic: string): KnowledgeGraph => {
+  const tag = (mentions: GraphMention[]) => mentions.map(m => ({ ...m, sessionId, topic }));
+  return {
+    entities: graph.entities.map(e => ({ ...e, mentions: tag(e.mentions) })),
+    relations: graph.relations.map(r => ({ ...r, mentions: tag(r.mentions) })),
+  };
+};
+
+// The graph across all research topics. The active session's live graph replaces its saved copy.
+export const crossTopicGraph = (sessions: ResearchSession[], active?: { id: string; topic: string; graph?: KnowledgeGraph }) =>
+  mergeGraphs([
+    ...sessions.filter(s => s.graph && s.id !== active?.id).map(s => withSession(s.graph!, s.id, s.topic)),
+    ...(active?.graph ? [withSession(active.graph, active.id, active.topic)] : []),
+  ]);
+
+// Steps whose findings are already in the graph
+export const extractedStepIds = (graph?: KnowledgeGraph) =>
+  new Set((graph?.entities || []).flatMap(e => e.mentions.map(m => m.stepId)));
+
+// The most connected entities, and the relations among them
+export const largestEntities = (graph: KnowledgeGraph, limit: number): KnowledgeGraph => {
+  if (graph.entities.length <= limit) return graph;
+  const degree = new Map<string, number>();
+  graph.relations.forEach(r => [r.from, r.to].forEach(id => degree.set(id, (degree.get(id) || 0) + 1)));
+  const score = (e: GraphEntity) => (degree.get(e.id) || 0) * 2 + e.mentions.length;
+  const kept = [...graph.entities].sort((a, b) => score(b) - score(a)).slice(0, limit);
+  const ids = new Set(kept.map(e => e.id));
+  return { entities: kept, relations: graph.relations.filter(r => ids.has(r.from) && ids.has(r.to)) };
+};
+
+// --- LAYOUT ---
+// Force-directed (Fruchterman–Reingold). Starts from a circle so the same graph always gets the same picture.
+export const layoutGraph = (graph: KnowledgeGraph, width: number, height: number, iterations = 250) => {
+  const n = graph.entities.length;
+  const index = new Map(graph.entities.map((e, i) => [e.id, i]));
+  const nodes = graph.entities.map((_, i) => ({
+    x: width / 2 + Math.cos((2 * Math.PI * i) / Math.max(n, 1)) * width / 3,
+    y: height / 2 + Math.sin((2 * Math.PI * i) / Math.max(n, 1)) * height / 3,
+  }));
+  const edges = graph.relations
+    .map(r => [index.get(r.from), index.get(r.to)])
+    .filter((e): e is [number, number] => e[0] !== undefined && e[1] !== undefined);
+  const k = Math.sqrt((width * height) / Math.max(n, 1)) * 0.8;
+
+  for (let step = 0, temperature = width / 10; step < iterations; step++, temperature *= 0.98) {
+    const moves = nodes.map(() => ({ x: 0, y: 0 }));
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = nodes[i].x - nodes[j].x || 0.01;
+        const dy = nodes[i].y - nodes[j].y || 0.01;
+        const dist = Math.hypot(dx, dy);
+        const force = (k * k) / dist;
+        moves[i].x += (dx / dist) * force; moves[i].y += (dy / dist) * force;
+        moves[j].x -= (dx / dist) * force; moves[j].y -= (dy / dist) * force;
+      }
+    }
+    edges.forEach(([i, j]) => {
+      const dx = nodes[i].x - nodes[j].x;
+      const dy = nodes[i].y - nodes[j].y;
+      const dist = Math.hypot(dx, dy) || 0.01;
+      const force = (dist * dist) / k;
+      moves[i].x -= (dx / dist) * force; moves[i].y -= (dy / dist) * force;
+      moves[j].x += (dx / dist) * force; moves[j].y += (dy / dist) * force;
+    });
+    nodes.forEach((node, i) => {
+      const length = Math.hypot(moves[i].x, moves[i].y) || 1;
+      node.x = Math.min(width - 20, Math.max(20, node.x + (moves[i].x / length) * Math.min(length, temperature)));
+      node.y = Math.min(height - 20, Math.max(20, node.y + (moves[i].y / length) * Math.min(length, temperature)));
+    });
+  }
+  return new Map(graph.entities.map((e, i) => [e.id, nodes[i]]));
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToHtml, parseInline, parseMarkdown, sanitizeUrl } from './markdown';
+
+describe('sanitizeUrl', () => {
+  it('keeps http, https, mailto, fragments and relative links', () => {
+    expect(sanitizeUrl('https://example.com/a?b=1#c')).toBe('https://example.com/a?b=1#c');
+    expect(sanitizeUrl('HTTP://example.com')).toBe('HTTP://example.com');
+    expect(sanitizeUrl('mailto:team@example.com')).toBe('mailto:team@example.com');
+    expect(sanitizeUrl('#ref-1')).toBe('#ref-1');
+    expect(sanitizeUrl('docs/guide.md')).toBe('docs/guide.md');
+    expect(sanitizeUrl('  https://example.com  ')).toBe('https://example.com');
+  });
+
+  it('rejects other schemes', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('JavaScript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(sanitizeUrl('vbscript:msgbox(1)')).toBeNull();
+  });
+
+  it('reads the scheme the way a browser does, without whitespace and control characters', () => {
+    expect(sanitizeUrl('java\tscript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('java\nscript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('\u0000javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl(' \u001Fjava\rscript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('https://exa\tmple.com')).toBe('https://example.com');
+  });
+});
+
+describe('link parsing', () => {
+  it('parses inline links with titles', () => {
+    expect(parseInline('See [the docs](https://example.com "Docs") now')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', href: 'https://example.com', title: 'Docs', children: [{ type: 'text', text: 'the docs' }] },
+      { type: 'text', text: ' now' },
+    ]);
+  });
+
+  it('parses angle-bracket destinations, which may contain tabs', () => {
+    expect(parseInline('[x](<a b.md>)')).toEqual([
+      { type: 'link', href: 'a b.md', title: undefined, children: [{ type: 'text', text: 'x' }] },
+    ]);
+    expect(parseInline('[x](<java\tscript:alert(1)>)')[0]).toMatchObject({ type: 'link', href: 'java\tscript:alert(1)' });
+  });
+
+  it('resolves reference links from definitions', () => {
+    const [paragraph] = parseMarkdown('Read [the guide][g] and [g].\n\n[g]: https://example.com/guide "Guide"');
+    expect(paragraph).toMatchObject({
+      type: 'paragraph',
+      children: [
+        { type: 'text', text: 'Read ' },
+        { type: 'link', href: 'https://example.com/guide', title: 'Guide' },
+        { type: 'text', text: ' and ' },
+        { type: 'link', href: 'https://example.com/guide' },
+        { type: 'text', text: '.' },
+      ],
+    });
+  });
+
+  it('parses autolinks, images and citations', () => {
+    expect(parseInline('<https://example.com>')[0]).toMatchObject({ type: 'link', href: 'https://example.com' });
+    expect(parseInline('![A chart](https://example.com/c.png)')).toEqual([
+      { type: 'image', src: 'https://example.com/c.png', alt: 'A chart', title: undefined },
+    ]);
+    expect(parseInline('Grew 22% [1, 2]')).toEqual([
+      { type: 'text', text: 'Grew 22% ' },
+      { type: 'citation', numbers: [1, 2] },
+    ]);
+  });
+
+  it('leaves unclosed links as text', () => {
+    expect(parseInline('[not a link](docs/guide.md')).toEqual([
+      { type: 'text', text: '[not a link](docs/guide.md' },
+    ]);
+  });
+});
+
+describe('markdownToHtml', () => {
+  it('renders unsafe links as their text', () => {
+    expect(markdownToHtml('[x](javascript:alert(1))')).toBe('<p>x</p>');
+    expect(markdownToHtml('[x](<java\tscript:alert(1)>)')).toBe('<p>x</p>');
+  });
+
+  it('renders images as links', () => {
+    expect(markdownToHtml('![chart](https://example.com/c.png?id=1)')).toBe('<p><a href="https://example.com/c.png?id=1">chart</a></p>');
+  });
+});
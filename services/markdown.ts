@@ -0,0 +1,662 @@
+import { CITATION_PATTERN, parseCitation } from "./sources";
+
+// --- MARKDOWN ---
+// A dependency-free CommonMark parser with the GFM extensions the reports use (tables, task lists,
+// strikethrough, autolinks), plus our [n] citation markers.
+// Raw HTML is never interpreted: it stays text, and links are limited to safe URL schemes.
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; title?: string; children: Inline[] }
+  | { type: 'image'; src: string; alt: string; title?: string }
+  | { type: 'citation'; numbers: number[] }
+  | { type: 'break' };
+
+export type Align = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  // null for plain items, true/false for GFM task items
+  checked: boolean | null;
+  children: Block[];
+}
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; loose: boolean; items: ListItem[] }
+  | { type: 'table'; align: Align[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'hr' };
+
+type Definitions = Map<string, { href: string; title?: string }>;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)[^`]*$/;
+const ATX = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?[ \t]*$/;
+const HR = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const SETEXT = /^ {0,3}(=+|-+)[ \t]*$/;
+const DEFINITION = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+["'(](.*)["')])?[ \t]*$/;
+const INDENTED_CODE = /^ {4}/;
+const PUNCTUATION = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const CITATION_AT_START = new RegExp(`^${CITATION_PATTERN.source}`);
+
+const isBlank = (line: string) => /^[ \t]*$/.test(line);
+const indentOf = (line: string) => line.match(/^ */)![0].length;
+const normalizeLabel = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase();
+const expandTabs = (line: string) => line.replace(/^\t+/, tabs => '    '.repeat(tabs.length));
+
+// Only these schemes may become clickable; anything else (javascript:, data:...) renders as text.
+// Browsers drop tabs, newlines and control characters from URLs, so "java\tscript:" is checked as "javascript:".
+export const sanitizeUrl = (url: string): string | null => {
+  const cleaned = url.replace(/[\u0000-\u001F\u007F]/g, '').trim();
+  const scheme = cleaned.replace(/\s/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  if (!scheme) return cleaned;
+  return ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase()) ? cleaned : null;
+};
+
+// ---------------------------------------------------------------------------
+// Inline parsing
+// ---------------------------------------------------------------------------
+
+// Index of the closing backtick run of exactly `length`, or -1
+const findClosingBackticks = (text: string, from: number, length: number) => {
+  const pattern = /`+/g;
+  pattern.lastIndex = from;
+  let match;
+  while ((match = pattern.exec(text))) {
+    if (match[0].length === length) return match.index;
+  }
+  return -1;
+};
+
+// Closing delimiter run of exactly `length` chars that is not preceded by whitespace
+const findClosingDelimiter = (text: string, from: number, char: string, length: number) => {
+  for (let j = from; j < text.length; j++) {
+    const c = text[j];
+    if (c === '\\') { j++; continue; }
+    if (c === '`') {
+      const run = text.slice(j).match(/^`+/)![0];
+      const close = findClosingBackticks(text, j + run.length, run.length);
+      if (close !== -1) j = close + run.length - 1;
+      continue;
+    }
+    if (c !== char) continue;
+    let end = j;
+    while (text[end] === char) end++;
+    const runLength = end - j;
+    const precededBySpace = /\s/.test(text[j - 1]);
+    const followedByWord = /[A-Za-z0-9]/.test(text[end] || '');
+    if (runLength === length && !precededBySpace && j > from && !(char === '_' && followedByWord)) {
+      return j;
+    }
+    j = end - 1;
+  }
+  return -1;
+};
+
+interface EmphasisMatch {
+  node: Inline;
+  end: number;
+  // Opening delimiters left over when a longer run closes with a shorter one, e.g. "***a**"
+  leftover: string;
+}
+
+const parseEmphasis = (text: string, i: number, defs: Definitions): EmphasisMatch | null => {
+  const char = text[i];
+  let runEnd = i;
+  while (text[runEnd] === char) runEnd++;
+  const run = runEnd - i;
+
+  // Must be left-flanking; underscores also may not open inside a word
+  if (runEnd >= text.length || /\s/.test(text[runEnd])) return null;
+  if (char === '_' && i > 0 && /[A-Za-z0-9]/.test(text[i - 1])) return null;
+
+  if (char === '~') {
+    if (run > 2) return null;
+    const close = findClosingDelimiter(text, runEnd, '~', run);
+    if (close === -1) return null;
+    return { node: { type: 'del', children: parseInline(text.slice(runEnd, close), defs) }, end: close + run, leftover: '' };
+  }
+
+  for (const length of [Math.min(run, 3), 2, 1].filter((n, idx, all) => n <= run && all.indexOf(n) === idx)) {
+    const close = findClosingDelimiter(text, runEnd, char, length);
+    if (close === -1) continue;
+    // The delimiters closest to the content pair up; the rest of the run stays literal
+    const children = parseInline(text.slice(runEnd, close), defs);
+    const node: Inline =
+      length === 3 ? { type: 'strong', children: [{ type: 'em', children }] } :
+      length === 2 ? { type: 'strong', children } :
+      { type: 'em', children };
+    return { node, end: close + length, leftover: char.repeat(run - length) };
+  }
+  return null;
+};
+
+interface LinkMatch {
+  label: string;
+  href: string;
+  title?: string;
+  end: number;
+}
+
+// Parses [label](href "title"), [label][ref], [label][] and [label] (when defined) starting at text[i] === '['
+const parseLinkAt = (text: string, i: number, defs: Definitions): LinkMatch | null => {
+  let depth = 0;
+  let j = i;
+  for (; j < text.length; j++) {
+    const c = text[j];
+    if (c === '\\') { j++; continue; }
+    if (c === '`') {
+      const run = text.slice(j).match(/^`+/)![0];
+      const close = findClosingBackticks(text, j + run.length, run.length);
+      if (close !== -1) j = close + run.length - 1;
+      continue;
+    }
+    if (c === '[') depth++;
+    if (c === ']' && --depth === 0) break;
+  }
+  if (j >= text.length) return null;
+  const label = text.slice(i + 1, j);
+
+  if (text[j + 1] === '(') {
+    const m = text.slice(j + 1).match(/^\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+("[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/);
+    if (m) {
+      return { label, href: m[1].replace(/^<|>$/g, ''), title: m[2]?.slice(1, -1), end: j + 1 + m[0].length };
+    }
+  }
+  if (text[j + 1] === '[') {
+    const m = text.slice(j + 1).match(/^\[([^\]]*)\]/);
+    const def = m && defs.get(normalizeLabel(m[1] || label));
+    if (m && def) return { label, ...def, end: j + 1 + m[0].length };
+  }
+  const def = defs.get(normalizeLabel(label));
+  return def ? { label, ...def, end: j + 1 } : null;
+};
+
+// Text content without formatting; citations and breaks are dropped
+export const plainText = (nodes: Inline[]): string => nodes.map(node =>
+  node.type === 'text' || node.type === 'code' ? node.text :
+  node.type === 'image' ? node.alt :
+  'children' in node ? plainText(node.children) : ''
+).join('');
+
+export const parseInline = (text: string, defs: Definitions = new Map()): Inline[] => {
+  const out: Inline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) out.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: Inline) => {
+    flush();
+    out.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length) {
+      if (text[i + 1] === '\n') { push({ type: 'break' }); i += 2; continue; }
+      if (PUNCTUATION.test(text[i + 1])) { buffer += text[i + 1]; i += 2; continue; }
+    }
+
+    if (ch === '\n') {
+      // Two trailing spaces make a hard break, anything else is a soft break
+      const hard = / {2,}$/.test(buffer);
+      buffer = buffer.replace(/ +$/, '');
+      if (hard) push({ type: 'break' });
+      else buffer += '\n';
+      i++;
+      while (text[i] === ' ') i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = findClosingBackticks(text, i + run.length, run.length);
+      if (close !== -1) {
+        let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        if (/^ .* $/.test(code) && code.trim()) code = code.slice(1, -1);
+        push({ type: 'code', text: code });
+        i = close + run.length;
+      } else {
+        buffer += run;
+        i += run.length;
+      }
+      continue;
+    }
+
+    if (ch === '!' && text[i + 1] === '[') {
+      const link = parseLinkAt(text, i + 1, defs);
+      if (link) {
+        push({ type: 'image', src: link.href, alt: plainText(parseInline(link.label, defs)), title: link.title });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const link = parseLinkAt(text, i, defs);
+      if (link) {
+        push({ type: 'link', href: link.href, title: link.title, children: parseInline(link.label, defs) });
+        i = link.end;
+        continue;
+      }
+      const citation = text.slice(i).match(CITATION_AT_START);
+      if (citation) {
+        push({ type: 'citation', numbers: parseCitation(citation[0]) });
+        i += citation[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const auto = text.slice(i).match(/^<((?:https?|mailto):[^\s<>]+)>/i);
+      if (auto) {
+        push({ type: 'link', href: auto[1], children: [{ type: 'text', text: auto[1] }] });
+        i += auto[0].length;
+        continue;
+      }
+    }
+
+    // GFM bare autolinks
+    if ((ch === 'h' || ch === 'w' || ch === 'H' || ch === 'W') && (i === 0 || /[\s(*_~]/.test(text[i - 1]))) {
+      const m = text.slice(i).match(/^(?:https?:\/\/|www\.)[^\s<]+/i);
+      if (m) {
+        let url = m[0].replace(/[?!.,:;*_~'"]+$/, '');
+        const count = (c: string) => url.split(c).length - 1;
+        while (url.endsWith(')') && count(')') > count('(')) url = url.slice(0, -1);
+        push({ type: 'link', href: /^www\./i.test(url) ? `http://${url}` : url, children: [{ type: 'text', text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      const emphasis = parseEmphasis(text, i, defs);
+      if (emphasis) {
+        buffer += emphasis.leftover;
+        push(emphasis.node);
+        i = emphasis.end;
+        continue;
+      }
+      const run = text.slice(i).match(ch === '*' ? /^\*+/ : ch === '_' ? /^_+/ : /^~+/)![0];
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+  flush();
+  return out;
+};
+
+// ---------------------------------------------------------------------------
+// Block parsing
+// ---------------------------------------------------------------------------
+
+interface ListMarker {
+  indent: number;
+  marker: string;
+  spaces: number;
+  content: string;
+}
+
+const matchListItem = (line: string): ListMarker | null => {
+  const m = line.match(LIST_ITEM);
+  if (!m) return null;
+  return { indent: m[1].length, marker: m[2], spaces: (m[3] || '').length, content: m[4] || '' };
+};
+
+// Bullets must use the same character, ordered items the same delimiter, to stay in one list
+const listKind = (marker: string) => /\d/.test(marker) ? `ol${marker.slice(-1)}` : `ul${marker}`;
+
+const isTableStart = (lines: string[], i: number) =>
+  i + 1 < lines.length && lines[i].includes('|') && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-')
+  && splitTableRow(lines[i]).length === splitTableRow(lines[i + 1]).length;
+
+// Lines that end a paragraph without a blank line in between
+const interruptsParagraph = (line: string) => {
+  if (ATX.test(line) || FENCE.test(line) || HR.test(line) || QUOTE.test(line)) return true;
+  const item = matchListItem(line);
+  return !!item && item.content.trim() !== '' && (!/\d/.test(item.marker) || parseInt(item.marker, 10) === 1);
+};
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlign = (cell: string): Align => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+const parseBlocks = (lines: string[], defs: Definitions): Block[] => {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) { i++; continue; }
+
+    // Fenced code. An unclosed fence (e.g. mid-stream) runs to the end of the input.
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, marker, lang] = fence;
+      const fenceIndent = indentOf(line);
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`).test(lines[i])) {
+        body.push(lines[i].replace(new RegExp(`^ {0,${fenceIndent}}`), ''));
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', lang, text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(ATX);
+    if (heading) {
+      const text = (heading[2] || '').replace(/(^|[ \t]+)#+[ \t]*$/, '');
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(text, defs) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (DEFINITION.test(line)) { i++; continue; }
+
+    if (INDENTED_CODE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && (INDENTED_CODE.test(lines[i]) || isBlank(lines[i]))) {
+        body.push(lines[i].slice(4));
+        i++;
+      }
+      while (body.length && isBlank(body[body.length - 1])) body.pop();
+      blocks.push({ type: 'code', lang: '', text: body.join('\n') });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length) {
+        const quoted = lines[i].match(QUOTE);
+        if (quoted) {
+          inner.push(quoted[1]);
+        } else if (!isBlank(lines[i]) && inner.length && !isBlank(inner[inner.length - 1]) && !interruptsParagraph(lines[i])) {
+          // Lazy continuation of a quoted paragraph
+          inner.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(inner, defs) });
+      continue;
+    }
+
+    const first = matchListItem(line);
+    if (first) {
+      const kind = listKind(first.marker);
+      const items: ListItem[] = [];
+      let loose = false;
+
+      while (i < lines.length) {
+        const item = matchListItem(lines[i]);
+        if (!item || listKind(item.marker) !== kind) break;
+
+        // Content that starts 5+ columns after the marker is an indented code block, so it only counts as 1
+        const gap = item.content === '' || item.spaces > 4 ? 1 : item.spaces;
+        const contentIndent = item.indent + item.marker.length + gap;
+        const itemLines = [item.spaces > 4 ? ' '.repeat(item.spaces - 1) + item.content : item.content];
+        let sawBlank = false;
+        i++;
+
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            itemLines.push('');
+            sawBlank = true;
+          } else if (indentOf(next) >= contentIndent) {
+            itemLines.push(next.slice(contentIndent));
+          } else if (!sawBlank && !matchListItem(next) && !interruptsParagraph(next)) {
+            // Lazy continuation line
+            itemLines.push(next.trim());
+          } else {
+            break;
+          }
+          i++;
+        }
+
+        let trailingBlanks = 0;
+        while (itemLines.length > 1 && itemLines[itemLines.length - 1] === '') {
+          itemLines.pop();
+          trailingBlanks++;
+        }
+        if (itemLines.slice(1).includes('')) loose = true;
+
+        let checked: boolean | null = null;
+        const task = itemLines[0].match(/^\[([ xX])\][ \t]+(.*)$/);
+        if (task) {
+          checked = task[1] !== ' ';
+          itemLines[0] = task[2];
+        }
+        items.push({ checked, children: parseBlocks(itemLines, defs) });
+
+        if (trailingBlanks > 0) {
+          const next = i < lines.length ? matchListItem(lines[i]) : null;
+          if (next && listKind(next.marker) === kind) loose = true;
+          else break;
+        }
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered: kind.startsWith('ol'),
+        start: kind.startsWith('ol') ? parseInt(first.marker, 10) : 1,
+        loose,
+        items
+      });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(lines[i]);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|') && !interruptsParagraph(lines[i])) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] || '', defs)));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell, defs)), rows });
+      continue;
+    }
+
+    // Paragraph, possibly turned into a setext heading by an underline
+    const paragraph = [line.trim()];
+    i++;
+    let setextLevel = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const underline = lines[i].match(SETEXT);
+      if (underline) {
+        setextLevel = underline[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (interruptsParagraph(lines[i]) || isTableStart(lines, i)) break;
+      paragraph.push(lines[i].replace(/^[ \t]+/, ''));
+      i++;
+    }
+    const text = paragraph.join('\n').replace(/[ \t]+$/, '');
+    blocks.push(setextLevel
+      ? { type: 'heading', level: setextLevel, children: parseInline(text, defs) }
+      : { type: 'paragraph', children: parseInline(text, defs) });
+  }
+
+  return blocks;
+};
+
+const collectDefinitions = (lines: string[]): Definitions => {
+  const defs: Definitions = new Map();
+  lines.forEach(line => {
+    const m = line.match(DEFINITION);
+    if (m && !defs.has(normalizeLabel(m[1]))) {
+      defs.set(normalizeLabel(m[1]), { href: m[2], title: m[3] });
+    }
+  });
+  return defs;
+};
+
+const toLines = (source: string) => source.replace(/\r\n?/g, '\n').split('\n').map(expandTabs);
+
+export const parseMarkdown = (source: string): Block[] => {
+  const lines = toLines(source);
+  return parseBlocks(lines, collectDefinitions(lines));
+};
+
+// ---------------------------------------------------------------------------
+// Incremental parsing for streamed content
+// ---------------------------------------------------------------------------
+
+// Splits the source at blank lines that separate independent top-level blocks.
+// Blank lines inside fences, before indented continuations, or between items of one list don't split.
+const splitTopLevel = (lines: string[]): string[][] => {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (fence) {
+      current.push(line);
+      if (new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`).test(line)) fence = null;
+      continue;
+    }
+    const open = line.match(FENCE);
+    if (open) fence = open[1];
+
+    if (isBlank(line) && current.length) {
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      const nextLine = lines[next];
+      const continuesList = !!matchListItem(current[0]) && nextLine !== undefined && (!!matchListItem(nextLine) || indentOf(nextLine) > 0);
+      if (nextLine !== undefined && (indentOf(nextLine) > 0 || continuesList)) {
+        current.push(line);
+        continue;
+      }
+      chunks.push(current);
+      current = [];
+      continue;
+    }
+    if (!isBlank(line)) current.push(line);
+  }
+  if (current.length) chunks.push(current);
+  return chunks;
+};
+
+// Returns a parse function that reuses the blocks of every top-level chunk it has already seen.
+// While a report streams in, only the last chunk changes, so each update re-parses just that tail.
+export const createMarkdownParser = () => {
+  let cache = new Map<string, Block[]>();
+  let defsKey = '';
+
+  return (source: string): Block[] => {
+    const lines = toLines(source);
+    const defs = collectDefinitions(lines);
+    const key = JSON.stringify([...defs]);
+    if (key !== defsKey) {
+      cache = new Map();
+      defsKey = key;
+    }
+
+    const next = new Map<string, Block[]>();
+    const blocks = splitTopLevel(lines).flatMap(chunk => {
+      const text = chunk.join('\n');
+      const parsed = cache.get(text) || next.get(text) || parseBlocks(chunk, defs);
+      next.set(text, parsed);
+      return parsed;
+    });
+    cache = next;
+    return blocks;
+  };
+};
+
+// ---------------------------------------------------------------------------
+// HTML output (exports)
+// ---------------------------------------------------------------------------
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineToHtml = (nodes: Inline[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return escapeHtml(node.text);
+    case 'strong': return `<strong>${inlineToHtml(node.children)}</strong>`;
+    case 'em': return `<em>${inlineToHtml(node.children)}</em>`;
+    case 'del': return `<del>${inlineToHtml(node.children)}</del>`;
+    case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+    case 'break': return '<br />';
+    case 'citation':
+      return `<sup>[${node.numbers.map(n => `<a href="#ref-${n}">${n}</a>`).join(', ')}]</sup>`;
+    case 'link': {
+      const href = sanitizeUrl(node.href);
+      const title = node.title ? ` title="${escapeHtml(node.title)}"` : '';
+      return href ? `<a href="${escapeHtml(href)}"${title}>${inlineToHtml(node.children)}</a>` : inlineToHtml(node.children);
+    }
+    case 'image': {
+      // As in the app, a link: opening an export must not fetch anything from hosts the model picked
+      const src = sanitizeUrl(node.src);
+      return src ? `<a href="${escapeHtml(src)}">${escapeHtml(node.alt || src)}</a>` : escapeHtml(node.alt);
+    }
+  }
+}).join('');
+
+const blockToHtml = (block: Block, tight = false): string => {
+  switch (block.type) {
+    case 'heading': return `<h${block.level}>${inlineToHtml(block.children)}</h${block.level}>`;
+    case 'paragraph': return tight ? inlineToHtml(block.children) : `<p>${inlineToHtml(block.children)}</p>`;
+    case 'code': {
+      const lang = block.lang ? ` class="language-${escapeHtml(block.lang)}"` : '';
+      return `<pre><code${lang}>${escapeHtml(block.text)}</code></pre>`;
+    }
+    case 'blockquote': return `<blockquote>\n${block.children.map(b => blockToHtml(b)).join('\n')}\n</blockquote>`;
+    case 'hr': return '<hr />';
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      const items = block.items.map(item => {
+        const box = item.checked === null ? '' : `<input type="checkbox" disabled${item.checked ? ' checked' : ''} /> `;
+        return `<li>${box}${item.children.map(b => blockToHtml(b, !block.loose)).join('\n')}</li>`;
+      });
+      return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+    }
+    case 'table': {
+      const align = (i: number) => block.align[i] ? ` style="text-align:${block.align[i]}"` : '';
+      const head = block.header.map((cell, i) => `<th${align(i)}>${inlineToHtml(cell)}</th>`).join('');
+      const rows = block.rows.map(row => `<tr>${row.map((cell, i) => `<td${align(i)}>${inlineToHtml(cell)}</td>`).join('')}</tr>`);
+      return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>`;
+    }
+  }
+};
+
+export const markdownToHtml = (source: string) => parseMarkdown(source).map(b => blockToHtml(b)).join('\n');
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResearchMonitor, ResearchStep, Source } from '../types';
+import { advanceSchedule, buildDigest, diffSources, runMonitor } from './monitors';
+import { createMockProvider, setProvider } from './providers';
+
+const HOUR = 60 * 60 * 1000;
+
+// --- FIXTURES ---
+const step = (id: string, query: string, status: ResearchStep['status'], sources: Source[] = []): ResearchStep => ({
+  id,
+  query,
+  status,
+  finding: status === 'completed' ? `Notes on ${query}.` : undefined,
+  sources,
+});
+
+const monitor = (overrides: Partial<ResearchMonitor> = {}): ResearchMonitor => ({
+  id: 'monitor-1',
+  name: 'Solar watch',
+  plan: { topic: 'Solar power', steps: [step('step-0', 'costs', 'pending'), step('step-1', 'capacity', 'pending')] },
+  intervalHours: 24,
+  createdAt: 1,
+  // Overdue
+  nextRunAt: 2,
+  runs: [{ id: 'run-1', startedAt: 1, completedAt: 1 }],
+  baseline: [step('step-0', 'costs', 'completed'), step('step-1', 'capacity', 'failed')],
+  ...overrides,
+});
+
+beforeEach(() => {
+  // Failed runs are logged
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  setProvider(createMockProvider());
+});
+
+describe('advanceSchedule', () => {
+  it('moves the next run one interval past now', () => {
+    expect(advanceSchedule(monitor(), 1000).nextRunAt).toBe(1000 + 24 * HOUR);
+  });
+
+  it('leaves on-demand monitors unscheduled', () => {
+    expect(advanceSchedule(monitor({ intervalHours: undefined }), 1000).nextRunAt).toBeUndefined();
+  });
+});
+
+describe('diffSources', () => {
+  it('lists new and dropped sources, matching the same page under different links', () => {
+    const kept = { title: 'IEA', uri: 'https://www.iea.org/report?utm_source=feed' };
+    const { newSources, droppedSources } = diffSources(
+      [{ title: 'IEA', uri: 'https://iea.org/report' }, { title: 'Old blog', uri: 'https://blog.example.com/post' }],
+      [kept, { title: 'IRENA', uri: 'https://irena.org/stats' }]
+    );
+    expect(newSources.map(s => s.title)).toEqual(['IRENA']);
+    expect(droppedSources.map(s => s.title)).toEqual(['Old blog']);
+  });
+});
+
+describe('buildDigest', () => {
+  const previous = [
+    step('step-0', 'costs', 'completed', [{ title: 'Old', uri: 'https://old.example.com/a' }]),
+    step('step-1', 'capacity', 'failed'),
+  ];
+  const current = [
+    step('step-0', 'costs', 'completed', [{ title: 'New', uri: 'https://new.example.com/a' }]),
+    step('step-1', 'capacity', 'completed'),
+  ];
+
+  it('merges recovered steps into the resolved questions from the Monitor agent', async () => {
+    const provider = createMockProvider({
+      json: () => ({
+        summary: 'Costs fell.',
+        changedFigures: [
+          { stepId: 'step-0', description: 'Panel price', before: '$0.30/W', after: '$0.25/W' },
+          { stepId: 'step-9', description: 'Invented', before: '1', after: '2' },
+        ],
+        resolvedQuestions: ['capacity', 'Whether storage costs fell'],
+        newDevelopments: ['A new tariff'],
+      }),
+    });
+
+    const digest = await buildDigest('Solar power', previous, current, { provider });
+    expect(digest).toEqual({
+      summary: 'Costs fell.',
+      changedFigures: [{ stepId: 'step-0', description: 'Panel price', before: '$0.30/W', after: '$0.25/W' }],
+      resolvedQuestions: ['capacity', 'Whether storage costs fell'],
+      newDevelopments: ['A new tariff'],
+      newSources: [{ title: 'New', uri: 'https://new.example.com/a' }],
+      droppedSources: [{ title: 'Old', uri: 'https://old.example.com/a' }],
+    });
+  });
+
+  it('counts recovered steps as resolved even when the agent reports nothing', async () => {
+    const provider = createMockProvider({ json: () => ({}) });
+    const digest = await buildDigest('Solar power', previous, current, { provider });
+    expect(digest.summary).toBe('No material changes were found.');
+    expect(digest.resolvedQuestions).toEqual(['capacity']);
+  });
+});
+
+describe('runMonitor', () => {
+  it('saves the run as a session, compares it with the baseline and schedules the next one', async () => {
+    setProvider(createMockProvider());
+    const { monitor: next, session } = await runMonitor(monitor());
+
+    const run = next.runs[next.runs.length - 1];
+    expect(next.runs).toHaveLength(2);
+    expect(run.error).toBeUndefined();
+    expect(run.digest?.resolvedQuestions).toContain('capacity');
+    expect(run.sessionId).toBe(session?.id);
+    expect(session?.artifact.phase).toBe('completed');
+    expect(next.baseline?.map(s => s.status)).toEqual(['completed', 'completed']);
+    expect(next.nextRunAt).toBe(run.startedAt + 24 * HOUR);
+  });
+
+  it('records a failed run and still advances the schedule', async () => {
+    setProvider(createMockProvider({ research: () => { throw new Error('API key not valid.'); } }));
+    const before = monitor();
+    const { monitor: next, session } = await runMonitor(before);
+
+    const run = next.runs[next.runs.length - 1];
+    expect(session).toBeUndefined();
+    expect(run.error).toMatch(/Run ended while researching/);
+    expect(run.digest).toBeUndefined();
+    expect(next.baseline).toEqual(before.baseline);
+    expect(next.nextRunAt).toBe(run.startedAt + 24 * HOUR);
+  });
+});
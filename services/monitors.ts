@@ -0,0 +1,183 @@
+import { ChangeDigest, MonitorRun, ResearchMonitor, ResearchPlan, ResearchSession, ResearchStep, Source } from "../types";
+import { compareFindings } from "./gemini";
+import { createResearchOrchestrator, hasBlockingFailures, OrchestratorOptions, RunState } from "./orchestrator";
+import { collectSources, sourceKey } from "./sources";
+
+// --- MONITORS ---
+// A monitor re-runs an approved plan headlessly, on demand or on a schedule while the app is open.
+// Each run is saved as its own session and compared with the previous run's findings in a ChangeDigest.
+// Attached documents are not part of a monitor; it only re-searches the web.
+
+export const MONITOR_SCHEDULES: { label: string; hours?: number }[] = [
+  { label: 'On demand' },
+  { label: 'Daily', hours: 24 },
+  { label: 'Weekly', hours: 24 * 7 },
+];
+
+const HOUR = 60 * 60 * 1000;
+
+// Fresh pending steps for the next run. Deep mode follow-ups are dropped; the Analyst proposes new ones each run.
+const resetPlan = (plan: ResearchPlan): ResearchPlan => ({
+  ...plan,
+  steps: plan.steps
+    .filter(step => !step.round)
+    .map(({ id, query, notes, optional, cell }) => ({ id, query, notes, optional, cell, status: 'pending' })),
+});
+
+// What a run leaves behind for the next comparison
+const baselineOf = (steps: ResearchStep[]) =>
+  steps.map(({ id, query, status, finding, sources }) => ({ id, query, status, finding, sources }));
+
+// From a completed run; its findings become the baseline the first scheduled run is compared with
+export const createMonitor = (name: string, state: RunState, sessionId?: string): ResearchMonitor => {
+  const now = Date.now();
+  return {
+    id: `monitor-${now}`,
+    name,
+    plan: resetPlan(state.plan!),
+    settings: state.settings,
+    sourcePolicy: state.sourcePolicy,
+    createdAt: now,
+    runs: [{ id: `run-${now}`, startedAt: now, completedAt: now, sessionId }],
+    baseline: baselineOf(state.plan!.steps),
+  };
+};
+
+export const scheduleMonitor = (monitor: ResearchMonitor, intervalHours?: number): ResearchMonitor => ({
+  ...monitor,
+  intervalHours,
+  nextRunAt: intervalHours ? (lastRunAt(monitor) ?? Date.now()) + intervalHours * HOUR : undefined,
+});
+
+export const lastRunAt = (monitor: ResearchMonitor) => monitor.runs[monitor.runs.length - 1]?.startedAt;
+
+export const isDue = (monitor: ResearchMonitor, now = Date.now()) => !!monitor.nextRunAt && monitor.nextRunAt <= now;
+
+// Moves the next run one interval past a run starting now, whatever that run's outcome
+export const advanceSchedule = (monitor: ResearchMonitor, now = Date.now()): ResearchMonitor => ({
+  ...monitor,
+  nextRunAt: monitor.intervalHours ? now + monitor.intervalHours * HOUR : undefined,
+});
+
+// --- CHANGE DIGEST ---
+export const diffSources = (before: Source[], after: Source[]) => {
+  const beforeKeys = new Set(before.map(sourceKey));
+  const afterKeys = new Set(after.map(sourceKey));
+  return {
+    newSources: after.filter(source => !beforeKeys.has(sourceKey(source))),
+    droppedSources: before.filter(source => !afterKeys.has(sourceKey(source))),
+  };
+};
+
+// Sources are compared here; figures, resolved questions and other news come from the Monitor agent.
+// Steps that failed last time and succeeded now always count as resolved.
+export const buildDigest = async (
+  topic: string,
+  previous: ResearchStep[],
+  current: ResearchStep[],
+  options: Parameters<typeof compareFindings>[3] = {}
+): Promise<ChangeDigest> => {
+  const findings = await compareFindings(topic, previous, current, options);
+  const recovered = current
+    .filter(step => step.status === 'completed' && previous.find(p => p.id === step.id)?.status !== 'completed')
+    .map(step => step.query);
+  return {
+    ...findings,
+    ...diffSources(collectSources(previous), collectSources(current)),
+    resolvedQuestions: [...new Set([...recovered, ...findings.resolvedQuestions])],
+  };
+};
+
+// --- RUNNING ---
+export interface MonitorRunResult {
+  monitor: ResearchMonitor;
+  // The run's report for the history; missing when the run failed
+  session?: ResearchSession;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// The run's report as a history entry, with the digest as its opening message
+const monitorSession = (monitor: ResearchMonitor, state: RunState, run: MonitorRun): ResearchSession => ({
+  id: `session-${run.startedAt}`,
+  title: `${monitor.name} · ${new Date(run.startedAt).toLocaleDateString()}`,
+  topic: monitor.plan.topic,
+  plan: state.plan,
+  artifact: state.artifact,
+  messages: [{
+    id: run.id,
+    role: 'model',
+    content: run.digest
+      ? `Monitor run of "${monitor.name}". What changed: ${run.digest.summary}`
+      : `Monitor run of "${monitor.name}".`,
+    timestamp: run.startedAt,
+  }],
+  sourcePolicy: state.sourcePolicy,
+  settings: state.settings,
+  usage: state.usage,
+  verification: state.verification,
+  revisions: state.revisions,
+  graph: state.graph,
+  trace: state.trace,
+  createdAt: run.startedAt,
+  updatedAt: run.completedAt || run.startedAt,
+  completedAt: run.completedAt,
+});
+
+// Researches the whole plan again with its own coordinator, so it never touches the run shown in the app.
+// Failures are recorded on the run rather than thrown.
+export const runMonitor = async (
+  monitor: ResearchMonitor,
+  options: OrchestratorOptions = {}
+): Promise<MonitorRunResult> => {
+  const startedAt = Date.now();
+  const run: MonitorRun = { id: `run-${startedAt}`, startedAt };
+  const orchestrator = createResearchOrchestrator(options);
+  const plan = resetPlan(monitor.plan);
+
+  let state: RunState | undefined;
+  let session: ResearchSession | undefined;
+  try {
+    orchestrator.restore({
+      artifact: { title: plan.topic, content: '', phase: 'reviewing', sources: [] },
+      plan,
+      settings: monitor.settings,
+      sourcePolicy: monitor.sourcePolicy,
+    });
+    await orchestrator.approve(plan);
+    // Unattended, so write the report from whatever succeeded
+    if (hasBlockingFailures(orchestrator.getState().plan) && orchestrator.getState().artifact.phase === 'researching') {
+      await orchestrator.continueWithoutFailed();
+    }
+    const finished = orchestrator.getState();
+    if (finished.artifact.phase !== 'completed') throw new Error(finished.error || `Run ended while ${finished.artifact.phase}.`);
+    state = finished;
+  } catch (e) {
+    console.error("Monitor run failed", e);
+    run.error = errorMessage(e);
+  }
+
+  // A failed comparison still leaves a usable report
+  if (state && monitor.baseline) {
+    try {
+      run.digest = await buildDigest(plan.topic, monitor.baseline, state.plan!.steps, { settings: monitor.settings });
+    } catch (e) {
+      console.error("Change detection failed", e);
+      run.error = `Change detection failed: ${errorMessage(e)}`;
+    }
+  }
+
+  run.completedAt = Date.now();
+  if (state) {
+    session = monitorSession(monitor, state, run);
+    run.sessionId = session.id;
+  }
+  return {
+    monitor: {
+      ...advanceSchedule(monitor, startedAt),
+      runs: [...monitor.runs, run],
+      baseline: state ? baselineOf(state.plan!.steps) : monitor.baseline,
+    },
+    session,
+  };
+};
@@ -0,0 +1,460 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResearchPlan, ResearchStep } from '../types';
+import { emptyGraph } from './graph';
+import { createResearchOrchestrator, initialRunState, OrchestratorEvent, reduceRun, ResearchAgents, RunState } from './orchestrator';
+import { normalizeSettings } from './settings';
+
+// --- FIXTURES ---
+const plan = (...queries: string[]): ResearchPlan => ({
+  topic: 'Solar power',
+  steps: queries.map((query, i) => ({ id: `step-${i}`, query, status: 'pending' })),
+});
+
+// Agents that answer instantly; each test overrides the ones it cares about
+const fakeAgents = (overrides: Partial<ResearchAgents> = {}): ResearchAgents => ({
+  createResearchPlan: async topic => ({ ...plan('costs', 'capacity'), topic }),
+  createComparisonPlan: async () => { throw new Error('Not used.'); },
+  executeResearchStep: async step => ({ finding: `Notes on ${step.query}.`, sources: [{ title: step.query, uri: `https://example.com/${step.id}` }] }),
+  generateFinalReportStream: async (_topic, _steps, onChunk) => {
+    onChunk('# Report\n\n');
+    onChunk('Written from the notes.');
+  },
+  generateComparisonReportStream: async () => { throw new Error('Not used.'); },
+  analyzeFindings: async () => [],
+  answerFollowUp: async () => ({ answer: 'From the notes.' }),
+  verifyReport: async () => [],
+  reviseFlaggedClaims: async (_topic, report) => report,
+  rewriteSection: async (_topic, _report, section) => section.text,
+  extractEntities: async () => emptyGraph(),
+  ...overrides,
+});
+
+// Records the phase after every event
+const watchPhases = (orchestrator: ReturnType<typeof createResearchOrchestrator>) => {
+  const phases: string[] = [];
+  orchestrator.subscribe((_event, state) => {
+    if (phases[phases.length - 1] !== state.artifact.phase) phases.push(state.artifact.phase);
+  });
+  return phases;
+};
+
+// A promise the test settles by hand
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+// A completed session as saved in the history
+const completedSession = (): RunState => ({
+  artifact: {
+    title: 'Solar power',
+    content: '# Solar power\n\n## Detailed Analysis\n\nPanels got cheaper.\n\n## Conclusion\n\nKeep building.',
+    phase: 'completed',
+    sources: [],
+  },
+  plan: { ...plan('costs'), steps: [{ id: 'step-0', query: 'costs', status: 'completed', finding: 'Panels got cheaper.', sources: [] }] },
+  verification: { claims: [{ id: 'claim-1', claim: 'Panels got cheaper.', quote: 'Panels got cheaper.', verdict: 'unsupported' }], checkedAt: 1 },
+});
+
+const reduceAll = (state: RunState, events: OrchestratorEvent[]) => events.reduce(reduceRun, state);
+
+beforeEach(() => {
+  // The coordinator logs every failure; the tests provoke plenty
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// --- REDUCER ---
+describe('reduceRun', () => {
+  it('walks planning → reviewing → researching → reporting → completed', () => {
+    const draft = plan('costs');
+    const states = [
+      { type: 'planning-started', topic: 'Solar power' },
+      { type: 'plan-ready', plan: draft },
+      { type: 'research-started', plan: draft },
+      { type: 'step-started', stepId: 'step-0' },
+      { type: 'step-finished', step: { ...draft.steps[0], status: 'completed', finding: 'Cheap.', sources: [] } },
+      { type: 'report-started' },
+      { type: 'report-chunk', text: '# Report' },
+      { type: 'done' },
+    ].reduce<RunState[]>((all, event) => [...all, reduceRun(all[all.length - 1], event as OrchestratorEvent)], [initialRunState]);
+
+    expect(states.map(s => s.artifact.phase)).toEqual(['idle', 'planning', 'reviewing', 'researching', 'researching', 'researching', 'reporting', 'reporting', 'completed']);
+    const done = states[states.length - 1];
+    expect(done.artifact.content).toBe('# Report');
+    expect(done.plan?.steps[0].status).toBe('completed');
+    expect(done.revisions).toHaveLength(1);
+  });
+
+  it('ignores events that do not belong to the current phase', () => {
+    const state = reduceRun(initialRunState, { type: 'report-chunk', text: 'stray' });
+    expect(state).toBe(initialRunState);
+  });
+
+  it('goes back to idle when planning fails and records the error in the trace', () => {
+    const state = reduceAll(initialRunState, [
+      { type: 'planning-started', topic: 'Solar power' },
+      { type: 'plan-failed', error: 'Planner unavailable' },
+    ]);
+    expect(state.artifact.phase).toBe('idle');
+    expect(state.error).toBe('Planner unavailable');
+    expect(state.trace).toEqual([expect.objectContaining({ kind: 'error', event: 'plan-failed', message: 'Planner unavailable' })]);
+  });
+
+  it('counts retries and marks failed steps', () => {
+    const draft = plan('costs');
+    const state = reduceAll(initialRunState, [
+      { type: 'planning-started', topic: 'Solar power' },
+      { type: 'plan-ready', plan: draft },
+      { type: 'research-started', plan: draft },
+      { type: 'step-started', stepId: 'step-0' },
+      { type: 'step-retrying', stepId: 'step-0', attempt: 1, error: '503' },
+      { type: 'step-failed', stepId: 'step-0', error: 'Still down' },
+    ]);
+    expect(state.plan?.steps[0]).toMatchObject({ status: 'failed', error: 'Still down', attempts: 2 });
+  });
+
+  it('keeps the partial report when reporting fails', () => {
+    const draft = { ...plan('costs'), steps: [{ ...plan('costs').steps[0], status: 'completed' as const }] };
+    const state = reduceAll(initialRunState, [
+      { type: 'planning-started', topic: 'Solar power' },
+      { type: 'plan-ready', plan: draft },
+      { type: 'research-started', plan: draft },
+      { type: 'report-started' },
+      { type: 'report-chunk', text: '# Half' },
+      { type: 'report-failed', error: 'Stream dropped' },
+    ]);
+    expect(state.artifact).toMatchObject({ phase: 'completed', content: '# Half' });
+    expect(state.error).toBe('Stream dropped');
+  });
+
+  it('requeues in-flight steps on pause and cancel', () => {
+    const draft = plan('costs', 'capacity');
+    const researching = reduceAll(initialRunState, [
+      { type: 'planning-started', topic: 'Solar power' },
+      { type: 'plan-ready', plan: draft },
+      { type: 'research-started', plan: draft },
+      { type: 'step-started', stepId: 'step-0' },
+    ]);
+
+    const paused = reduceRun(researching, { type: 'paused' });
+    expect(paused.artifact.phase).toBe('paused');
+    expect(paused.plan?.steps[0].status).toBe('pending');
+    expect(reduceRun(paused, { type: 'resumed' }).artifact.phase).toBe('researching');
+
+    const cancelled = reduceRun(researching, { type: 'cancelled' });
+    expect(cancelled.artifact.phase).toBe('cancelled');
+    expect(cancelled.plan?.steps[0].status).toBe('pending');
+  });
+
+  it('cancels straight back to idle before research starts', () => {
+    const state = reduceAll(initialRunState, [
+      { type: 'planning-started', topic: 'Solar power' },
+      { type: 'cancelled' },
+    ]);
+    expect(state.artifact.phase).toBe('idle');
+  });
+
+  it('forgets a failed plan revision once research starts', () => {
+    const draft = plan('costs');
+    const state = reduceAll(initialRunState, [
+      { type: 'planning-started', topic: 'Solar power' },
+      { type: 'plan-ready', plan: draft },
+      { type: 'plan-revision-failed', error: 'Model overloaded.' },
+      { type: 'research-started', plan: draft },
+    ]);
+    expect(state.error).toBeUndefined();
+    expect(state.artifact.phase).toBe('researching');
+  });
+
+  it('skips the pending steps once the budget is exceeded', () => {
+    const draft = plan('costs', 'capacity');
+    const state = reduceAll(initialRunState, [
+      { type: 'planning-started', topic: 'Solar power' },
+      { type: 'plan-ready', plan: draft },
+      { type: 'research-started', plan: draft },
+      { type: 'step-started', stepId: 'step-0' },
+      { type: 'budget-exceeded' },
+    ]);
+    expect(state.budgetExceeded).toBe(true);
+    expect(state.plan?.steps.map(s => [s.status, !!s.skipped])).toEqual([['researching', false], ['failed', true]]);
+  });
+
+  it('restores interrupted sessions as stopped', () => {
+    const draft = plan('costs');
+    const saved: RunState = {
+      artifact: { title: 'Solar power', content: '', phase: 'researching', sources: [] },
+      plan: { ...draft, steps: [{ ...draft.steps[0], status: 'researching' }] },
+      answering: true,
+    };
+    const state = reduceRun(initialRunState, { type: 'restored', state: saved });
+    expect(state.artifact.phase).toBe('cancelled');
+    expect(state.plan?.steps[0].status).toBe('pending');
+    expect(state.answering).toBeUndefined();
+
+    const planning = reduceRun(initialRunState, { type: 'restored', state: { ...saved, plan: null, artifact: { ...saved.artifact, phase: 'planning' } } });
+    expect(planning.artifact.phase).toBe('idle');
+
+    const completed = { ...saved, answering: undefined, artifact: { ...saved.artifact, phase: 'completed' as const } };
+    expect(reduceRun(initialRunState, { type: 'restored', state: completed }).artifact.phase).toBe('completed');
+  });
+});
+
+// --- ORCHESTRATOR ---
+describe('createResearchOrchestrator', () => {
+  it('runs a topic from planning to a completed, verified report', async () => {
+    const orchestrator = createResearchOrchestrator({ agents: fakeAgents() });
+    const phases = watchPhases(orchestrator);
+
+    await orchestrator.start('Solar power');
+    expect(orchestrator.getState().artifact.phase).toBe('reviewing');
+    await orchestrator.approve(orchestrator.getState().plan!);
+
+    const state = orchestrator.getState();
+    expect(phases).toEqual(['planning', 'reviewing', 'researching', 'reporting', 'completed']);
+    expect(state.artifact.content).toBe('# Report\n\nWritten from the notes.');
+    expect(state.artifact.sources).toHaveLength(2);
+    expect(state.verification?.claims).toEqual([]);
+    expect(state.error).toBeUndefined();
+  });
+
+  it('reports a failed plan', async () => {
+    const orchestrator = createResearchOrchestrator({
+      agents: fakeAgents({ createResearchPlan: async () => { throw new Error('Planner unavailable'); } }),
+    });
+    await orchestrator.start('Solar power');
+    expect(orchestrator.getState()).toMatchObject({ error: 'Planner unavailable', artifact: { phase: 'idle' } });
+  });
+
+  it('retries transient step failures before succeeding', async () => {
+    let calls = 0;
+    const orchestrator = createResearchOrchestrator({
+      retry: { retries: 2, baseDelayMs: 0 },
+      agents: fakeAgents({
+        executeResearchStep: async step => {
+          if (step.id === 'step-0' && calls++ === 0) throw new Error('503 UNAVAILABLE');
+          return { finding: 'Notes.', sources: [] };
+        },
+      }),
+    });
+    const events: string[] = [];
+    orchestrator.subscribe(event => events.push(event.type));
+
+    await orchestrator.start('Solar power');
+    await orchestrator.approve(orchestrator.getState().plan!);
+
+    expect(events).toContain('step-retrying');
+    expect(orchestrator.getState().plan?.steps[0]).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(orchestrator.getState().artifact.phase).toBe('completed');
+  });
+
+  it('waits on a failed step until it is retried or skipped', async () => {
+    let down = true;
+    const orchestrator = createResearchOrchestrator({
+      retry: { retries: 1, baseDelayMs: 0 },
+      agents: fakeAgents({
+        executeResearchStep: async step => {
+          if (step.id === 'step-1' && down) throw new Error('503 UNAVAILABLE');
+          return { finding: 'Notes.', sources: [] };
+        },
+      }),
+    });
+
+    await orchestrator.start('Solar power');
+    await orchestrator.approve(orchestrator.getState().plan!);
+    expect(orchestrator.getState().artifact.phase).toBe('researching');
+    expect(orchestrator.getState().plan?.steps[1]).toMatchObject({ status: 'failed', error: '503 UNAVAILABLE', attempts: 2 });
+
+    down = false;
+    await orchestrator.retryStep('step-1');
+    expect(orchestrator.getState().plan?.steps[1].status).toBe('completed');
+    expect(orchestrator.getState().artifact.phase).toBe('completed');
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    const research = vi.fn(async (): Promise<{ finding: string; sources: [] }> => { throw new Error('400 Bad request'); });
+    const orchestrator = createResearchOrchestrator({ retry: { retries: 2, baseDelayMs: 0 }, agents: fakeAgents({ executeResearchStep: research }) });
+
+    await orchestrator.start('Solar power');
+    await orchestrator.approve(orchestrator.getState().plan!);
+    expect(research).toHaveBeenCalledTimes(2);
+    await orchestrator.continueWithoutFailed();
+    expect(orchestrator.getState().artifact.phase).toBe('researching');
+  });
+
+  it('keeps the streamed text when the report fails', async () => {
+    const orchestrator = createResearchOrchestrator({
+      agents: fakeAgents({
+        generateFinalReportStream: async (_topic, _steps, onChunk) => {
+          onChunk('# Half a report');
+          throw new Error('Stream dropped');
+        },
+      }),
+    });
+
+    await orchestrator.start('Solar power');
+    await orchestrator.approve(orchestrator.getState().plan!);
+    expect(orchestrator.getState()).toMatchObject({ error: 'Stream dropped', artifact: { phase: 'completed', content: '# Half a report' } });
+  });
+
+  it('pauses in-flight steps and picks them up again on resume', async () => {
+    const started = deferred<void>();
+    let blocked = true;
+    const orchestrator = createResearchOrchestrator({
+      agents: fakeAgents({
+        executeResearchStep: (step: ResearchStep, options = {}) => {
+          if (!blocked) return Promise.resolve({ finding: 'Notes.', sources: [] });
+          started.resolve();
+          return new Promise((_resolve, reject) => options.signal?.addEventListener('abort', () => reject(new Error('Aborted')), { once: true }));
+        },
+      }),
+    });
+
+    await orchestrator.start('Solar power');
+    const running = orchestrator.approve(orchestrator.getState().plan!);
+    await started.promise;
+    orchestrator.pause();
+    await running;
+    expect(orchestrator.getState().artifact.phase).toBe('paused');
+    expect(orchestrator.getState().plan?.steps.every(s => s.status === 'pending')).toBe(true);
+
+    blocked = false;
+    await orchestrator.resume();
+    expect(orchestrator.getState().artifact.phase).toBe('completed');
+  });
+
+  it('stops a run and can resume it later', async () => {
+    const started = deferred<void>();
+    let blocked = true;
+    const orchestrator = createResearchOrchestrator({
+      agents: fakeAgents({
+        executeResearchStep: (_step: ResearchStep, options = {}) => {
+          if (!blocked) return Promise.resolve({ finding: 'Notes.', sources: [] });
+          started.resolve();
+          return new Promise((_resolve, reject) => options.signal?.addEventListener('abort', () => reject(new Error('Aborted')), { once: true }));
+        },
+      }),
+    });
+
+    await orchestrator.start('Solar power');
+    const running = orchestrator.approve(orchestrator.getState().plan!);
+    await started.promise;
+    orchestrator.stop();
+    await running;
+    expect(orchestrator.getState().artifact.phase).toBe('cancelled');
+
+    blocked = false;
+    await orchestrator.resume();
+    expect(orchestrator.getState().artifact.phase).toBe('completed');
+  });
+
+  it('writes the report from what it has once the budget is exceeded', async () => {
+    const research = vi.fn(fakeAgents().executeResearchStep);
+    const orchestrator = createResearchOrchestrator({ agents: fakeAgents({ executeResearchStep: research }) });
+    orchestrator.setSettings(normalizeSettings({ budget: { maxTokens: 10 } }));
+
+    await orchestrator.start('Solar power');
+    await orchestrator.approve(orchestrator.getState().plan!);
+
+    const state = orchestrator.getState();
+    expect(research).not.toHaveBeenCalled();
+    expect(state.budgetExceeded).toBe(true);
+    expect(state.plan?.steps.every(s => s.skipped)).toBe(true);
+    expect(state.artifact.phase).toBe('completed');
+  });
+
+  it('skips the Critic, claim revision and entity extraction once the budget is spent', async () => {
+    const verifyReport = vi.fn(fakeAgents().verifyReport);
+    const reviseFlaggedClaims = vi.fn(fakeAgents().reviseFlaggedClaims);
+    const extractEntities = vi.fn(fakeAgents().extractEntities);
+    const orchestrator = createResearchOrchestrator({ agents: fakeAgents({ verifyReport, reviseFlaggedClaims, extractEntities }) });
+    orchestrator.setSettings(normalizeSettings({ budget: { maxTokens: 10 } }));
+
+    await orchestrator.start('Solar power');
+    await orchestrator.approve(orchestrator.getState().plan!);
+    expect(orchestrator.getState().verification).toBeUndefined();
+
+    orchestrator.restore({ ...completedSession(), budgetExceeded: true });
+    await orchestrator.reviseClaims();
+    await orchestrator.extractGraph();
+
+    const state = orchestrator.getState();
+    expect(verifyReport).not.toHaveBeenCalled();
+    expect(reviseFlaggedClaims).not.toHaveBeenCalled();
+    expect(extractEntities).not.toHaveBeenCalled();
+    expect(state.artifact.content).toBe(completedSession().artifact.content);
+    expect(state.error).toMatch(/budget/);
+  });
+
+  it('restores a saved session and ignores the run it replaced', async () => {
+    const report = deferred<void>();
+    const orchestrator = createResearchOrchestrator({
+      agents: fakeAgents({ generateFinalReportStream: () => report.promise }),
+    });
+
+    await orchestrator.start('Solar power');
+    const running = orchestrator.approve(orchestrator.getState().plan!);
+    await vi.waitFor(() => expect(orchestrator.getState().artifact.phase).toBe('reporting'));
+
+    orchestrator.restore({ artifact: { title: 'Wind power', content: '# Wind', phase: 'completed', sources: [] }, plan: plan('turbines') });
+    report.resolve();
+    await running;
+    expect(orchestrator.getState().artifact).toMatchObject({ title: 'Wind power', content: '# Wind', phase: 'completed' });
+  });
+
+  it('runs actions on a session restored from the history', async () => {
+    const orchestrator = createResearchOrchestrator({
+      agents: fakeAgents({
+        reviseFlaggedClaims: async (_topic, report, _claims, _steps, options = {}) => {
+          if (options.signal?.aborted) throw new Error('Aborted');
+          return report.replace('Panels got cheaper.', 'Panels got cheaper, by most accounts.');
+        },
+        rewriteSection: async (_topic, _report, section, _instruction, _steps, options = {}) => {
+          if (options.signal?.aborted) throw new Error('Aborted');
+          return section.text.replace('cheaper', 'much cheaper');
+        },
+        extractEntities: async (step, options = {}) => {
+          if (options.signal?.aborted) throw new Error('Aborted');
+          return { entities: [{ id: 'product:panels', name: 'Panels', type: 'product', mentions: [{ stepId: step.id, query: step.query, sources: [] }] }], relations: [] };
+        },
+      }),
+    });
+    orchestrator.restore(completedSession());
+
+    await orchestrator.reviseClaims();
+    expect(orchestrator.getState().revisingClaims).toBeUndefined();
+    expect(orchestrator.getState().verification?.revised).toBe(true);
+
+    await orchestrator.reviseSection('Detailed Analysis', 'Be more emphatic');
+    expect(orchestrator.getState().rewritingSection).toBeUndefined();
+    expect(orchestrator.getState().artifact.content).toContain('Panels got much cheaper, by most accounts.');
+
+    await orchestrator.extractGraph();
+    expect(orchestrator.getState().extractingGraph).toBeUndefined();
+    expect(orchestrator.getState().graph?.entities).toHaveLength(1);
+  });
+
+  it('answers follow-up questions on a session restored from the history', async () => {
+    const answerFollowUp = vi.fn<ResearchAgents['answerFollowUp']>(async (question, _plan, _history, options = {}) => {
+      if (options.signal?.aborted) throw new Error('Aborted');
+      return { answer: `About ${question}: from the notes.` };
+    });
+    const orchestrator = createResearchOrchestrator({ agents: fakeAgents({ answerFollowUp }) });
+    const answers: string[] = [];
+    orchestrator.subscribe(event => { if (event.type === 'answer-ready') answers.push(event.answer.answer); });
+    orchestrator.restore(completedSession());
+
+    await orchestrator.ask('prices');
+    expect(orchestrator.getState().answering).toBe(false);
+    expect(answers).toEqual(['About prices: from the notes.']);
+
+    await orchestrator.researchQuestion('storage', 'solar battery storage costs');
+    expect(orchestrator.getState().answering).toBe(false);
+    expect(orchestrator.getState().plan?.steps.map(s => s.id)).toEqual(['step-0', 'followup-1']);
+    expect(answers).toHaveLength(2);
+  });
+});
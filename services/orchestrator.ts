@@ -0,0 +1,938 @@
+import { ArtifactState, ComparisonSpec, DeepResearchConfig, FollowUpAnswer, FollowUpExchange, KnowledgeGraph, LocalDocument, PlanRevision, ReportRevision, ReportVerification, ResearchPlan, ResearchSettings, ResearchStep, SourcePolicy, TraceEntry, TraceError, UsageRecord } from "../types";
+import { analyzeFindings, answerFollowUp, createComparisonPlan, createResearchPlan, executeResearchStep, extractEntities, generateComparisonReportStream, generateFinalReportStream, reviseFlaggedClaims, rewriteSection, verifyReport } from "./gemini";
+import { retrievePassages } from "./documents";
+import { emptyGraph, extractedStepIds, mergeGraphs } from "./graph";
+import { detectInjection } from "./promptSafety";
+import { DEFAULT_RETRY, RetryOptions, withRetry } from "./retry";
+import { listSections, nextRevisionId, replaceSection, sectionText } from "./revisions";
+import { applySourcePolicy, collectSources } from "./sources";
+import { NewTraceCall } from "./trace";
+import { isBudgetSpent, wouldExceedBudget } from "./usage";
+
+// --- COORDINATOR ---
+// Drives Planner → Researcher (→ Analyst, in deep mode) → Reporter → Critic as a state machine over ArtifactState['phase'].
+// Every change goes through a typed event so the UI (or a test) can observe the whole run.
+
+export interface RunState {
+  artifact: ArtifactState;
+  plan: ResearchPlan | null;
+  error?: string;
+  // Deep mode: the round the Analyst is currently planning
+  analyzingRound?: number;
+  // A follow-up question about the completed report is being answered
+  answering?: boolean;
+  // The Planner is reworking the plan under review
+  revisingPlan?: boolean;
+  // Files attached to the session; they outlive individual runs until a new topic is started
+  documents?: LocalDocument[];
+  // Allow/block lists and tier overrides for this session's web sources
+  sourcePolicy?: SourcePolicy;
+  // Models, step range, temperature, length and language; defaults apply when unset
+  settings?: ResearchSettings;
+  // Token counts of every agent call since the topic was started
+  usage?: UsageRecord[];
+  // The budget ran out; remaining steps were skipped and the report written from what was found
+  budgetExceeded?: boolean;
+  // The Critic's fact-check of the current report
+  verification?: ReportVerification;
+  verifying?: boolean;
+  // The Reporter is rewriting the claims the Critic flagged
+  revisingClaims?: boolean;
+  // Every version of the report, oldest first; the last one is the current content
+  revisions?: ReportRevision[];
+  // Heading path of the section the Reporter is rewriting
+  rewritingSection?: string;
+  // Entities and relationships extracted from the findings
+  graph?: KnowledgeGraph;
+  extractingGraph?: boolean;
+  // Every agent call of the run and the failures reported along the way
+  trace?: TraceEntry[];
+}
+
+export type OrchestratorEvent =
+  | { type: 'planning-started'; topic: string }
+  | { type: 'plan-ready'; plan: ResearchPlan }
+  | { type: 'plan-failed'; error: string }
+  | { type: 'plan-revision-started'; revision: PlanRevision }
+  | { type: 'plan-revision-failed'; error: string }
+  | { type: 'research-started'; plan: ResearchPlan }
+  | { type: 'step-started'; stepId: string }
+  | { type: 'step-retrying'; stepId: string; attempt: number; error: string }
+  | { type: 'step-finished'; step: ResearchStep }
+  | { type: 'step-failed'; stepId: string; error: string }
+  | { type: 'step-quarantined'; step: ResearchStep }
+  | { type: 'step-released'; stepId: string }
+  | { type: 'analysis-started'; round: number }
+  | { type: 'round-planned'; round: number; steps: ResearchStep[] }
+  | { type: 'analysis-failed'; error: string }
+  | { type: 'report-started' }
+  | { type: 'report-chunk'; text: string }
+  | { type: 'report-failed'; error: string }
+  | { type: 'verification-started' }
+  | { type: 'verification-ready'; verification: ReportVerification }
+  | { type: 'verification-failed'; error: string }
+  | { type: 'claims-revision-started' }
+  | { type: 'report-revised'; content: string; kind: ReportRevision['kind']; label: string; verification?: ReportVerification }
+  | { type: 'claims-revision-failed'; error: string }
+  | { type: 'section-rewrite-started'; path: string; instruction: string }
+  | { type: 'section-rewrite-failed'; error: string }
+  | { type: 'graph-extraction-started' }
+  | { type: 'graph-extracted'; graph: KnowledgeGraph }
+  | { type: 'graph-extraction-failed'; error: string }
+  | { type: 'done' }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  | { type: 'cancelled' }
+  | { type: 'restored'; state: RunState }
+  | { type: 'question-asked'; question: string }
+  | { type: 'followup-research-started'; question: string; query: string }
+  | { type: 'followup-step-added'; step: ResearchStep }
+  | { type: 'answer-ready'; question: string; answer: FollowUpAnswer }
+  | { type: 'answer-failed'; question: string; error: string }
+  | { type: 'documents-added'; documents: LocalDocument[] }
+  | { type: 'document-removed'; docId: string }
+  | { type: 'source-policy-changed'; policy: SourcePolicy }
+  | { type: 'settings-changed'; settings: ResearchSettings }
+  | { type: 'usage-recorded'; record: UsageRecord }
+  | { type: 'call-traced'; call: NewTraceCall }
+  | { type: 'budget-exceeded' };
+
+export type RunListener = (event: OrchestratorEvent, state: RunState) => void;
+
+// The agent functions the coordinator depends on, injectable for tests
+export interface ResearchAgents {
+  createResearchPlan: typeof createResearchPlan;
+  createComparisonPlan: typeof createComparisonPlan;
+  executeResearchStep: typeof executeResearchStep;
+  generateFinalReportStream: typeof generateFinalReportStream;
+  generateComparisonReportStream: typeof generateComparisonReportStream;
+  analyzeFindings: typeof analyzeFindings;
+  answerFollowUp: typeof answerFollowUp;
+  verifyReport: typeof verifyReport;
+  reviseFlaggedClaims: typeof reviseFlaggedClaims;
+  rewriteSection: typeof rewriteSection;
+  extractEntities: typeof extractEntities;
+}
+
+const defaultAgents: ResearchAgents = {
+  createResearchPlan,
+  createComparisonPlan,
+  executeResearchStep,
+  generateFinalReportStream,
+  generateComparisonReportStream,
+  analyzeFindings,
+  answerFollowUp,
+  verifyReport,
+  reviseFlaggedClaims,
+  rewriteSection,
+  extractEntities
+};
+
+export const DEFAULT_CONCURRENCY = 3;
+
+export const DEFAULT_DEEP_RESEARCH: DeepResearchConfig = { maxDepth: 2, breadth: 3, maxSteps: 12 };
+
+export interface OrchestratorOptions {
+  agents?: ResearchAgents;
+  // Maximum number of research steps in flight at once
+  concurrency?: number;
+  // Automatic retry policy for transient Researcher errors
+  retry?: RetryOptions;
+}
+
+export const initialRunState: RunState = {
+  artifact: {
+    title: 'Research Hub',
+    content: '',
+    phase: 'idle',
+    sources: []
+  },
+  plan: null
+};
+
+// Which phases each event may be applied in. Anything else is ignored by the reducer.
+const ALLOWED_PHASES: Record<OrchestratorEvent['type'], ArtifactState['phase'][]> = {
+  'planning-started': ['idle', 'completed', 'cancelled'],
+  'plan-ready': ['planning', 'reviewing'],
+  'plan-failed': ['planning'],
+  'plan-revision-started': ['reviewing'],
+  'plan-revision-failed': ['reviewing'],
+  'research-started': ['reviewing'],
+  'step-started': ['researching'],
+  'step-retrying': ['researching'],
+  'step-finished': ['researching'],
+  'step-failed': ['researching'],
+  'step-quarantined': ['researching'],
+  'step-released': ['researching'],
+  'analysis-started': ['researching'],
+  'round-planned': ['researching'],
+  'analysis-failed': ['researching'],
+  'report-started': ['researching'],
+  'report-chunk': ['reporting'],
+  'report-failed': ['reporting'],
+  'verification-started': ['reporting', 'completed'],
+  'verification-ready': ['reporting', 'completed'],
+  'verification-failed': ['reporting', 'completed'],
+  'claims-revision-started': ['completed'],
+  'report-revised': ['completed'],
+  'claims-revision-failed': ['completed'],
+  'section-rewrite-started': ['completed'],
+  'section-rewrite-failed': ['completed'],
+  'graph-extraction-started': ['completed'],
+  'graph-extracted': ['completed'],
+  'graph-extraction-failed': ['completed'],
+  'done': ['reporting'],
+  'paused': ['researching', 'reporting'],
+  'resumed': ['paused', 'cancelled'],
+  'cancelled': ['planning', 'reviewing', 'researching', 'reporting', 'paused'],
+  'restored': ['idle', 'planning', 'reviewing', 'researching', 'reporting', 'completed', 'paused', 'cancelled'],
+  'question-asked': ['completed'],
+  'followup-research-started': ['completed'],
+  'followup-step-added': ['completed'],
+  'answer-ready': ['completed'],
+  'answer-failed': ['completed'],
+  'documents-added': ['idle', 'planning', 'reviewing', 'researching', 'reporting', 'completed', 'paused', 'cancelled'],
+  'document-removed': ['idle', 'planning', 'reviewing', 'researching', 'reporting', 'completed', 'paused', 'cancelled'],
+  'source-policy-changed': ['idle', 'planning', 'reviewing', 'researching', 'reporting', 'completed', 'paused', 'cancelled'],
+  'settings-changed': ['idle', 'planning', 'reviewing', 'researching', 'reporting', 'completed', 'paused', 'cancelled'],
+  'usage-recorded': ['idle', 'planning', 'reviewing', 'researching', 'reporting', 'completed', 'paused', 'cancelled'],
+  'call-traced': ['idle', 'planning', 'reviewing', 'researching', 'reporting', 'completed', 'paused', 'cancelled'],
+  'budget-exceeded': ['researching'],
+};
+
+export const canApply = (state: RunState, event: OrchestratorEvent) =>
+  ALLOWED_PHASES[event.type].includes(state.artifact.phase);
+
+const updateStep = (plan: ResearchPlan | null, stepId: string, patch: Partial<ResearchStep>): ResearchPlan | null =>
+  plan && { ...plan, steps: plan.steps.map(s => s.id === stepId ? { ...s, ...patch } : s) };
+
+// Research is settled when nothing is pending or in flight
+export const isResearchSettled = (plan: ResearchPlan | null) =>
+  !!plan && plan.steps.every(s => s.status === 'completed' || s.status === 'failed');
+
+// Deep mode round of the most recently added steps (0 before the Analyst has run)
+export const currentRound = (plan: ResearchPlan | null) =>
+  Math.max(0, ...(plan?.steps || []).map(s => s.round || 0));
+
+// Only required steps hold the run when they fail; optional and skipped ones become coverage gaps
+export const hasBlockingFailures = (plan: ResearchPlan | null) =>
+  !!plan && plan.steps.some(s => s.status === 'failed' && !s.optional && !s.skipped);
+
+// Steps that never started once the budget ran out
+const skipPendingSteps = (plan: ResearchPlan | null): ResearchPlan | null =>
+  plan && {
+    ...plan,
+    steps: plan.steps.map(s => s.status === 'pending' ? { ...s, status: 'failed', skipped: true, error: 'Skipped: the run budget was reached.' } : s)
+  };
+
+// Appends a version of the report. Completed sessions saved before revisions existed get their current report as revision 1 first.
+const addRevision = (state: RunState, revision: Omit<ReportRevision, 'id' | 'createdAt'>): ReportRevision[] => {
+  const revisions = state.revisions?.length || state.artifact.phase !== 'completed'
+    ? state.revisions || []
+    : [{ id: 'rev-1', content: state.artifact.content, createdAt: Date.now(), kind: 'report' as const, label: 'Original report', verification: state.verification }];
+  return [...revisions, { ...revision, id: nextRevisionId(revisions), createdAt: Date.now() }];
+};
+
+// Steps that were in flight when the run was interrupted go back to the queue
+const requeueActiveSteps = (plan: ResearchPlan | null): ResearchPlan | null =>
+  plan && { ...plan, steps: plan.steps.map(s => s.status === 'researching' ? { ...s, status: 'pending' } : s) };
+
+const nextTraceId = (state: RunState) => `trace-${(state.trace?.length || 0) + 1}`;
+
+// Failures reported by events go into the trace, next to the calls that led to them
+const traceError = (state: RunState, event: OrchestratorEvent): RunState => {
+  if (!('error' in event)) return state;
+  const entry: TraceError = {
+    kind: 'error',
+    id: nextTraceId(state),
+    at: Date.now(),
+    event: event.type,
+    stepId: 'stepId' in event ? event.stepId : undefined,
+    message: event.error
+  };
+  return { ...state, trace: [...(state.trace || []), entry] };
+};
+
+export const reduceRun = (state: RunState, event: OrchestratorEvent): RunState =>
+  canApply(state, event) ? traceError(applyEvent(state, event), event) : state;
+
+const applyEvent = (state: RunState, event: OrchestratorEvent): RunState => {
+  const { artifact } = state;
+
+  switch (event.type) {
+    case 'planning-started':
+      return {
+        artifact: { title: event.topic, content: '', phase: 'planning', sources: [] },
+        plan: null,
+        documents: state.documents,
+        sourcePolicy: state.sourcePolicy,
+        settings: state.settings,
+        usage: [],
+        trace: []
+      };
+
+    case 'plan-ready':
+      return { ...state, plan: event.plan, revisingPlan: undefined, artifact: { ...artifact, phase: 'reviewing' } };
+
+    case 'plan-failed':
+      return { ...state, error: event.error, artifact: { ...artifact, phase: 'idle' } };
+
+    case 'plan-revision-started':
+      return { ...state, error: undefined, revisingPlan: true };
+
+    case 'plan-revision-failed':
+      // The draft under review stays usable
+      return { ...state, error: event.error, revisingPlan: undefined };
+
+    case 'research-started':
+      // A failed plan revision no longer matters once the plan is approved
+      return { ...state, error: undefined, plan: event.plan, artifact: { ...artifact, phase: 'researching' } };
+
+    case 'step-started':
+      return {
+        ...state,
+        plan: updateStep(state.plan, event.stepId, { status: 'researching', error: undefined }),
+        artifact: { ...artifact, currentStepId: event.stepId }
+      };
+
+    case 'step-finished':
+    case 'step-quarantined': {
+      const plan = updateStep(state.plan, event.step.id, event.step);
+      return {
+        ...state,
+        plan,
+        artifact: { ...artifact, sources: collectSources(plan?.steps || []) }
+      };
+    }
+
+    case 'step-retrying':
+      return { ...state, plan: updateStep(state.plan, event.stepId, { attempts: event.attempt + 1 }) };
+
+    case 'step-failed':
+      return { ...state, plan: updateStep(state.plan, event.stepId, { status: 'failed', error: event.error }) };
+
+    case 'step-released': {
+      // The flags stay on the step, so the finding is still marked once it is in the report
+      const plan = updateStep(state.plan, event.stepId, { status: 'completed', error: undefined });
+      return { ...state, plan, artifact: { ...artifact, sources: collectSources(plan?.steps || []) } };
+    }
+
+    case 'analysis-started':
+      return { ...state, analyzingRound: event.round };
+
+    case 'round-planned':
+      return {
+        ...state,
+        analyzingRound: undefined,
+        plan: state.plan && { ...state.plan, steps: [...state.plan.steps, ...event.steps] }
+      };
+
+    case 'analysis-failed':
+      // Not fatal: the report is written from the findings so far
+      return { ...state, analyzingRound: undefined };
+
+    case 'report-started':
+      // A resumed report is rewritten from scratch
+      return { ...state, verification: undefined, artifact: { ...artifact, phase: 'reporting', content: '', currentStepId: undefined } };
+
+    case 'report-chunk':
+      return { ...state, artifact: { ...artifact, content: artifact.content + event.text } };
+
+    case 'report-failed':
+      // Keep whatever was streamed so far
+      return { ...state, error: event.error, artifact: { ...artifact, phase: 'completed' } };
+
+    case 'verification-started':
+      return { ...state, verifying: true };
+
+    case 'verification-ready': {
+      // Once the report is done, the check belongs to its latest revision
+      const revisions = artifact.phase === 'completed' && state.revisions?.length
+        ? state.revisions.map((r, i, all) => i === all.length - 1 ? { ...r, verification: event.verification } : r)
+        : state.revisions;
+      return { ...state, verifying: undefined, verification: event.verification, revisions };
+    }
+
+    case 'verification-failed':
+      // Not fatal: the report stands unverified
+      return { ...state, verifying: undefined };
+
+    case 'claims-revision-started':
+      return { ...state, error: undefined, revisingClaims: true };
+
+    case 'report-revised':
+      // Sources are untouched, so citation numbers stay valid
+      return {
+        ...state,
+        revisingClaims: undefined,
+        rewritingSection: undefined,
+        verification: event.verification,
+        revisions: addRevision(state, { content: event.content, kind: event.kind, label: event.label, verification: event.verification }),
+        artifact: { ...artifact, content: event.content }
+      };
+
+    case 'claims-revision-failed':
+      return { ...state, error: event.error, revisingClaims: undefined };
+
+    case 'section-rewrite-started':
+      return { ...state, error: undefined, rewritingSection: event.path };
+
+    case 'section-rewrite-failed':
+      return { ...state, error: event.error, rewritingSection: undefined };
+
+    case 'graph-extraction-started':
+      return { ...state, extractingGraph: true };
+
+    case 'graph-extracted':
+      // Only new steps are extracted, so their fragment joins what the graph already has
+      return { ...state, extractingGraph: undefined, graph: mergeGraphs([state.graph || emptyGraph(), event.graph]) };
+
+    case 'graph-extraction-failed':
+      return { ...state, extractingGraph: undefined };
+
+    case 'done': {
+      const revision = {
+        content: artifact.content,
+        kind: 'report' as const,
+        label: state.revisions?.length ? 'Report rewritten with new research' : 'Original report',
+        verification: state.verification
+      };
+      return { ...state, revisions: addRevision(state, revision), artifact: { ...artifact, phase: 'completed' } };
+    }
+
+    case 'paused':
+      return { ...state, analyzingRound: undefined, verifying: undefined, plan: requeueActiveSteps(state.plan), artifact: { ...artifact, phase: 'paused', currentStepId: undefined } };
+
+    case 'resumed':
+      return { ...state, error: undefined, artifact: { ...artifact, phase: 'researching' } };
+
+    case 'cancelled':
+      // Nothing worth keeping before research starts, so go straight back to idle
+      if (artifact.phase === 'planning' || artifact.phase === 'reviewing') {
+        return { ...state, revisingPlan: undefined, artifact: { ...artifact, phase: 'idle' } };
+      }
+      return { ...state, analyzingRound: undefined, plan: requeueActiveSteps(state.plan), artifact: { ...artifact, phase: 'cancelled', currentStepId: undefined } };
+
+    case 'restored': {
+      // A saved session has no live requests behind it, so any in-flight phase comes back as stopped
+      const saved = { ...event.state, answering: undefined, revisingPlan: undefined, verifying: undefined, revisingClaims: undefined, rewritingSection: undefined, extractingGraph: undefined };
+      const phase = saved.artifact.phase;
+      if (phase === 'planning') {
+        return { ...saved, artifact: { ...saved.artifact, phase: 'idle' } };
+      }
+      if (phase === 'researching' || phase === 'reporting' || phase === 'paused') {
+        return { ...saved, plan: requeueActiveSteps(saved.plan), artifact: { ...saved.artifact, phase: 'cancelled', currentStepId: undefined } };
+      }
+      return saved;
+    }
+
+    case 'question-asked':
+    case 'followup-research-started':
+      return { ...state, answering: true };
+
+    case 'followup-step-added': {
+      // Appended after the report's steps, so existing citation numbers stay valid
+      const plan = state.plan && { ...state.plan, steps: [...state.plan.steps, event.step] };
+      return { ...state, plan, artifact: { ...artifact, sources: collectSources(plan?.steps || []) } };
+    }
+
+    case 'answer-ready':
+    case 'answer-failed':
+      return { ...state, answering: false };
+
+    case 'documents-added':
+      return { ...state, documents: [...(state.documents || []), ...event.documents] };
+
+    case 'document-removed':
+      // Steps already researched keep their citations of it
+      return { ...state, documents: (state.documents || []).filter(d => d.id !== event.docId) };
+
+    case 'source-policy-changed':
+      // Applies to steps researched from now on; finished steps keep their sources so citation numbers stay put
+      return { ...state, sourcePolicy: event.policy };
+
+    case 'settings-changed':
+      // Picked up by the next agent call
+      return { ...state, settings: event.settings };
+
+    case 'usage-recorded':
+      return { ...state, usage: [...(state.usage || []), event.record] };
+
+    case 'call-traced':
+      return { ...state, trace: [...(state.trace || []), { ...event.call, id: nextTraceId(state) }] };
+
+    case 'budget-exceeded':
+      return { ...state, budgetExceeded: true, plan: skipPendingSteps(state.plan) };
+  }
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Runs worker over items with at most `limit` in flight, resolving results in input order
+const runPool = async <T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+  return results;
+};
+
+export const createResearchOrchestrator = ({
+  agents = defaultAgents,
+  concurrency = DEFAULT_CONCURRENCY,
+  retry = DEFAULT_RETRY
+}: OrchestratorOptions = {}) => {
+  let state = initialRunState;
+  const listeners = new Set<RunListener>();
+
+  const dispatch = (event: OrchestratorEvent) => {
+    if (!canApply(state, event)) return;
+    state = reduceRun(state, event);
+    listeners.forEach(listener => listener(event, state));
+  };
+
+  // One controller per run segment. Pausing or stopping aborts it; resuming starts a fresh one.
+  let controller = new AbortController();
+  const freshSignal = () => {
+    controller = new AbortController();
+    return controller.signal;
+  };
+
+  // Records the token counts of an agent call, tagged with the step it was made for
+  const track = (stepId?: string) => (record: UsageRecord) =>
+    dispatch({ type: 'usage-recorded', record: stepId ? { ...record, stepId } : record });
+
+  // Usage and trace callbacks for an agent call, tagged with the step it is made for
+  const observe = (stepId?: string) => ({
+    onUsage: track(stepId),
+    onTrace: (call: NewTraceCall) => dispatch({ type: 'call-traced', call: stepId ? { ...call, stepId } : call }),
+  });
+
+  // Checked before each new step or round. Once over budget, the rest of the plan is skipped and the
+  // run falls through to the Reporter with what it has.
+  const budgetAllowsMore = () => {
+    if (state.budgetExceeded) return false;
+    if (!wouldExceedBudget(state.usage, state.settings)) return true;
+    dispatch({ type: 'budget-exceeded' });
+    return false;
+  };
+
+  // The fact-check, claim revision and entity extraction aren't in the projection above, so they are
+  // skipped once the budget has run out
+  const BUDGET_REACHED = 'Skipped: the run budget was reached.';
+  const budgetSpent = () => !!state.budgetExceeded || isBudgetSpent(state.usage, state.settings);
+
+  // --- PHASE 1: PLAN ---
+  // With a comparison, the plan is the entity × criterion grid instead of the Planner's own breakdown
+  const start = async (topic: string, comparison?: ComparisonSpec) => {
+    if (!canApply(state, { type: 'planning-started', topic })) return;
+    const signal = freshSignal();
+    dispatch({ type: 'planning-started', topic });
+
+    try {
+      const options = { signal, settings: state.settings, ...observe() };
+      const plan = comparison
+        ? await agents.createComparisonPlan(topic, comparison, undefined, options)
+        : await agents.createResearchPlan(topic, undefined, options);
+      dispatch({ type: 'plan-ready', plan });
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error(e);
+      dispatch({ type: 'plan-failed', error: errorMessage(e) });
+    }
+  };
+
+  // Sends the reviewed draft and the user's feedback back to the Planner
+  const revisePlan = async (revision: PlanRevision) => {
+    const topic = state.plan?.topic;
+    const comparison = state.plan?.comparison;
+    if (!topic || state.revisingPlan || !canApply(state, { type: 'plan-revision-started', revision })) return;
+    const signal = freshSignal();
+    dispatch({ type: 'plan-revision-started', revision });
+
+    try {
+      const options = { signal, settings: state.settings, ...observe() };
+      const plan = comparison
+        ? await agents.createComparisonPlan(topic, comparison, revision, options)
+        : await agents.createResearchPlan(topic, revision, options);
+      dispatch({ type: 'plan-ready', plan });
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error(e);
+      dispatch({ type: 'plan-revision-failed', error: errorMessage(e) });
+    }
+  };
+
+  // Runs one step with automatic retries. Failures are recorded on the step, never thrown.
+  const runStep = async (step: ResearchStep, signal: AbortSignal) => {
+    if (signal.aborted || !budgetAllowsMore()) return;
+    dispatch({ type: 'step-started', stepId: step.id });
+
+    const passages = retrievePassages(state.documents || [], [step.query, step.notes].filter(Boolean).join(' '));
+    try {
+      const result = await withRetry(
+        () => agents.executeResearchStep(step, { signal, passages, settings: state.settings, ...observe(step.id) }),
+        retry,
+        (attempt, error) => dispatch({ type: 'step-retrying', stepId: step.id, attempt, error: errorMessage(error) }),
+        signal
+      );
+      const sources = applySourcePolicy(result.sources, state.sourcePolicy);
+      // A finding that reads like instructions never reaches the other agents unless the user includes it
+      const flags = detectInjection(result.finding);
+      if (flags.length) {
+        dispatch({ type: 'step-quarantined', step: { ...step, status: 'failed', error: `Quarantined: ${flags.map(f => f.rule.toLowerCase()).join('; ')}.`, ...result, sources, quarantine: flags } });
+        return;
+      }
+      dispatch({ type: 'step-finished', step: { ...step, status: 'completed', error: undefined, quarantine: undefined, ...result, sources } });
+    } catch (e) {
+      // Interrupted steps were already requeued by the pause/cancel event
+      if (signal.aborted) return;
+      console.error("Research step failed", e);
+      dispatch({ type: 'step-failed', stepId: step.id, error: errorMessage(e) });
+    }
+  };
+
+  // --- PHASE 3: REPORT ---
+  const report = async (signal: AbortSignal) => {
+    const plan = state.plan;
+    if (signal.aborted || !plan || !canApply(state, { type: 'report-started' })) return;
+    dispatch({ type: 'report-started' });
+
+    try {
+      const onChunk = (text: string) => dispatch({ type: 'report-chunk', text });
+      const options = { signal, settings: state.settings, ...observe() };
+      if (plan.comparison) {
+        await agents.generateComparisonReportStream(plan, onChunk, options);
+      } else {
+        await agents.generateFinalReportStream(plan.topic, plan.steps, onChunk, options);
+      }
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error(e);
+      dispatch({ type: 'report-failed', error: errorMessage(e) });
+      return;
+    }
+    await verify(signal);
+    if (signal.aborted) return;
+    dispatch({ type: 'done' });
+    await extractGraph(signal);
+  };
+
+  // --- PHASE 4: VERIFY ---
+  // The Critic checks the report against the findings. A failed check leaves the report unverified, never blocks it.
+  const verify = async (signal: AbortSignal, revised = false) => {
+    const plan = state.plan;
+    if (!plan || signal.aborted || !canApply(state, { type: 'verification-started' })) return;
+    if (budgetSpent()) {
+      dispatch({ type: 'verification-failed', error: BUDGET_REACHED });
+      return;
+    }
+    dispatch({ type: 'verification-started' });
+
+    try {
+      const claims = await agents.verifyReport(state.artifact.content, plan.steps, { signal, settings: state.settings, ...observe() });
+      dispatch({ type: 'verification-ready', verification: { claims, checkedAt: Date.now(), ...(revised ? { revised } : {}) } });
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error("Fact-check failed", e);
+      dispatch({ type: 'verification-failed', error: errorMessage(e) });
+    }
+  };
+
+  // Has the Reporter rewrite the unsupported and contradicted claims, then checks the result again
+  const reviseClaims = async () => {
+    const plan = state.plan;
+    const flagged = state.verification?.claims.some(claim => claim.verdict !== 'supported');
+    if (!plan || !flagged || state.revisingClaims || state.answering || !canApply(state, { type: 'claims-revision-started' })) return;
+    if (budgetSpent()) {
+      dispatch({ type: 'claims-revision-failed', error: BUDGET_REACHED });
+      return;
+    }
+    const signal = controller.signal;
+    dispatch({ type: 'claims-revision-started' });
+
+    try {
+      const content = await agents.reviseFlaggedClaims(
+        plan.topic,
+        state.artifact.content,
+        state.verification!.claims,
+        plan.steps,
+        { signal, settings: state.settings, ...observe() }
+      );
+      dispatch({ type: 'report-revised', content, kind: 'fact-check', label: 'Revised the flagged claims' });
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error(e);
+      dispatch({ type: 'claims-revision-failed', error: errorMessage(e) });
+      return;
+    }
+    await verify(signal, true);
+  };
+
+  // --- PHASE 5: KNOWLEDGE GRAPH ---
+  // The Extractor reads every finding not yet in the graph. Steps it fails on are left out and tried again
+  // next time; the graph is a by-product, so failures never touch the report.
+  const extractGraph = async (signal: AbortSignal = controller.signal) => {
+    const extracted = extractedStepIds(state.graph);
+    const steps = (state.plan?.steps || []).filter(step => step.status === 'completed' && !extracted.has(step.id));
+    if (!steps.length || state.extractingGraph || signal.aborted || !canApply(state, { type: 'graph-extraction-started' })) return;
+    if (budgetSpent()) {
+      dispatch({ type: 'graph-extraction-failed', error: BUDGET_REACHED });
+      return;
+    }
+    dispatch({ type: 'graph-extraction-started' });
+
+    const fragments = await runPool(steps, concurrency, step =>
+      agents.extractEntities(step, { signal, settings: state.settings, ...observe(step.id) }).catch(e => {
+        if (!signal.aborted) console.error("Entity extraction failed", e);
+        return null;
+      })
+    );
+    const graph = fragments.filter((fragment): fragment is KnowledgeGraph => !!fragment);
+    if (graph.length) {
+      dispatch({ type: 'graph-extracted', graph: mergeGraphs(graph) });
+    } else {
+      dispatch({ type: 'graph-extraction-failed', error: signal.aborted ? 'Cancelled.' : 'The Extractor could not read any finding.' });
+    }
+  };
+
+  // --- REVISIONS ---
+  // Another change to the report is underway
+  const isRevising = () => !!(state.revisingClaims || state.rewritingSection || state.verifying || state.answering);
+
+  // Rewrites one section from the existing findings; the result becomes a new revision and is fact-checked again
+  const reviseSection = async (path: string, instruction: string) => {
+    const plan = state.plan;
+    const content = state.artifact.content;
+    const section = listSections(content).find(s => s.path === path);
+    if (!plan || !section || !instruction.trim() || isRevising() || !canApply(state, { type: 'section-rewrite-started', path, instruction })) return;
+    const signal = controller.signal;
+    dispatch({ type: 'section-rewrite-started', path, instruction });
+
+    try {
+      const text = await agents.rewriteSection(
+        plan.topic,
+        content,
+        { path, text: sectionText(content, section) },
+        instruction,
+        plan.steps,
+        { signal, settings: state.settings, ...observe() }
+      );
+      dispatch({ type: 'report-revised', content: replaceSection(content, section, text), kind: 'section', label: `Rewrote "${path}": ${instruction.trim()}` });
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error(e);
+      dispatch({ type: 'section-rewrite-failed', error: errorMessage(e) });
+      return;
+    }
+    await verify(signal, true);
+  };
+
+  // Makes an earlier version current again, as a new revision with that version's fact-check
+  const restoreRevision = (revisionId: string) => {
+    const revisions = state.revisions || [];
+    const index = revisions.findIndex(r => r.id === revisionId);
+    if (index < 0 || index === revisions.length - 1 || isRevising()) return;
+    const revision = revisions[index];
+    dispatch({
+      type: 'report-revised',
+      content: revision.content,
+      kind: 'restore',
+      label: `Restored revision ${index + 1}`,
+      verification: revision.verification
+    });
+  };
+
+  // --- PHASE 2b: ANALYZE (deep mode) ---
+  // Asks the Analyst for the next round of follow-up steps. Resolves true when any were queued.
+  const deepen = async (signal: AbortSignal) => {
+    const plan = state.plan;
+    const deep = plan?.deep;
+    if (!plan || !deep || signal.aborted) return false;
+
+    const round = currentRound(plan) + 1;
+    const breadth = Math.min(deep.breadth, deep.maxSteps - plan.steps.length);
+    if (round > deep.maxDepth || breadth <= 0 || !budgetAllowsMore()) return false;
+
+    dispatch({ type: 'analysis-started', round });
+    try {
+      const steps = await agents.analyzeFindings(plan, round, breadth, { signal, settings: state.settings, ...observe() });
+      dispatch({ type: 'round-planned', round, steps: steps.slice(0, breadth) });
+      return steps.length > 0;
+    } catch (e) {
+      if (signal.aborted) return false;
+      console.error("Analyst failed", e);
+      dispatch({ type: 'analysis-failed', error: errorMessage(e) });
+      return false;
+    }
+  };
+
+  // Moves on once every required step succeeded: to another round in deep mode while the budget allows,
+  // otherwise to the Reporter. With failures the run waits for the user to retry them or to continue without them.
+  const reportWhenSettled = async (signal: AbortSignal) => {
+    if (!isResearchSettled(state.plan) || hasBlockingFailures(state.plan)) return;
+    if (await deepen(signal)) {
+      await research(signal);
+      return;
+    }
+    await report(signal);
+  };
+
+  // Execute the still-pending steps in parallel, capped at `concurrency`
+  const research = async (signal: AbortSignal) => {
+    const pending = state.plan?.steps.filter(s => s.status === 'pending') || [];
+    await runPool(pending, concurrency, step => runStep(step, signal));
+    await reportWhenSettled(signal);
+  };
+
+  // --- PHASE 2: EXECUTE RESEARCH ---
+  const approve = async (approvedPlan: ResearchPlan) => {
+    if (!canApply(state, { type: 'research-started', plan: approvedPlan })) return;
+    const signal = freshSignal();
+    dispatch({ type: 'research-started', plan: approvedPlan });
+    await research(signal);
+  };
+
+  // Manual retry for a step that exhausted its automatic retries
+  const retryStep = async (stepId: string) => {
+    const step = state.plan?.steps.find(s => s.id === stepId);
+    if (!step || step.status !== 'failed' || state.artifact.phase !== 'researching') return;
+    const signal = controller.signal;
+    await runStep(step, signal);
+    await reportWhenSettled(signal);
+  };
+
+  // Lets a quarantined finding into the report after the user has read it
+  const releaseStep = async (stepId: string) => {
+    const step = state.plan?.steps.find(s => s.id === stepId);
+    if (!step?.quarantine || step.status !== 'failed' || !canApply(state, { type: 'step-released', stepId })) return;
+    dispatch({ type: 'step-released', stepId });
+    await reportWhenSettled(controller.signal);
+  };
+
+  // Writes the report from the successful steps only; failed ones are flagged as gaps
+  const continueWithoutFailed = async () => {
+    if (!isResearchSettled(state.plan) || !state.plan?.steps.some(s => s.status === 'completed')) return;
+    await report(controller.signal);
+  };
+
+  // --- FOLLOW-UP Q&A ---
+  const answer = async (question: string, history: FollowUpExchange[], signal: AbortSignal) => {
+    const plan = state.plan;
+    if (!plan) return;
+    try {
+      const result = await agents.answerFollowUp(question, plan, history, { signal, settings: state.settings, ...observe() });
+      dispatch({ type: 'answer-ready', question, answer: result });
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error(e);
+      dispatch({ type: 'answer-failed', question, error: errorMessage(e) });
+    }
+  };
+
+  // Answers a question about the completed report from the stored notes
+  const ask = async (question: string, history: FollowUpExchange[] = []) => {
+    if (!state.plan || state.answering || state.revisingClaims || !canApply(state, { type: 'question-asked', question })) return;
+    const signal = controller.signal;
+    dispatch({ type: 'question-asked', question });
+    await answer(question, history, signal);
+  };
+
+  // Runs the targeted search the Answerer suggested, adds it to the notes and answers again
+  const researchQuestion = async (question: string, query: string, history: FollowUpExchange[] = []) => {
+    const plan = state.plan;
+    if (!plan || state.answering || state.revisingClaims || !canApply(state, { type: 'followup-research-started', question, query })) return;
+    const signal = controller.signal;
+    dispatch({ type: 'followup-research-started', question, query });
+
+    const step: ResearchStep = { id: `followup-${plan.steps.length}`, query, status: 'researching' };
+    try {
+      const passages = retrievePassages(state.documents || [], query);
+      const result = await withRetry(() => agents.executeResearchStep(step, { signal, passages, settings: state.settings, ...observe(step.id) }), retry, undefined, signal);
+      const sources = applySourcePolicy(result.sources, state.sourcePolicy);
+      const flags = detectInjection(result.finding);
+      if (flags.length) throw new Error(`The search result was quarantined: ${flags.map(f => f.rule.toLowerCase()).join('; ')}.`);
+      dispatch({ type: 'followup-step-added', step: { ...step, status: 'completed', ...result, sources } });
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error("Follow-up research failed", e);
+      dispatch({ type: 'answer-failed', question, error: errorMessage(e) });
+      return;
+    }
+    await answer(question, history, signal);
+  };
+
+  // --- DOCUMENTS ---
+  const addDocuments = (documents: LocalDocument[]) => {
+    if (documents.length) dispatch({ type: 'documents-added', documents });
+  };
+
+  const removeDocument = (docId: string) => dispatch({ type: 'document-removed', docId });
+
+  const setSourcePolicy = (policy: SourcePolicy) => dispatch({ type: 'source-policy-changed', policy });
+
+  const setSettings = (settings: ResearchSettings) => dispatch({ type: 'settings-changed', settings });
+
+  // --- RUN CONTROL ---
+  const pause = () => {
+    if (!canApply(state, { type: 'paused' })) return;
+    controller.abort();
+    dispatch({ type: 'paused' });
+  };
+
+  const stop = () => {
+    if (!canApply(state, { type: 'cancelled' })) return;
+    controller.abort();
+    dispatch({ type: 'cancelled' });
+  };
+
+  // Loads a saved session, dropping whatever run is in flight. Actions on the restored session get a live signal.
+  const restore = (saved: RunState) => {
+    controller.abort();
+    freshSignal();
+    dispatch({ type: 'restored', state: saved });
+  };
+
+  // Picks up from the first unfinished step, or rewrites the report if research was already done
+  const resume = async () => {
+    if (!state.plan || !canApply(state, { type: 'resumed' })) return;
+    const signal = freshSignal();
+    dispatch({ type: 'resumed' });
+    await research(signal);
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener: RunListener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    start,
+    revisePlan,
+    approve,
+    retryStep,
+    releaseStep,
+    continueWithoutFailed,
+    pause,
+    resume,
+    stop,
+    restore,
+    reviseClaims,
+    reviseSection,
+    restoreRevision,
+    extractGraph: () => extractGraph(),
+    ask,
+    researchQuestion,
+    addDocuments,
+    removeDocument,
+    setSourcePolicy,
+    setSettings,
+  };
+};
+
+export type ResearchOrchestrator = ReturnType<typeof createResearchOrchestrator>;
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResearchPlan } from '../types';
+import { INJECTION_CORPUS } from './injectionCorpus';
+import { markdownToHtml } from './markdown';
+import { createResearchOrchestrator } from './orchestrator';
+import { block, detectInjection, quote, sanitizeUntrusted } from './promptSafety';
+import { createMockProvider, setProvider } from './providers';
+
+// --- FIXTURES ---
+const HIDDEN = /[\u200B\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/;
+
+// Links a browser would follow, read the way it reads them: without tabs, newlines and control characters
+const unsafeLinks = (html: string) => [...html.matchAll(/href="([^"]*)"/g)]
+  .map(match => match[1].replace(/&amp;/g, '&').replace(/[\u0000-\u0020\u007F]/g, ''))
+  .filter(href => /^[a-z][a-z0-9+.-]*:/i.test(href) && !/^(https?|mailto):/i.test(href));
+
+const FINDINGS = INJECTION_CORPUS.filter(c => c.kind === 'finding');
+const cases = INJECTION_CORPUS.map(c => [`[${c.kind}] ${c.name}`, c] as const);
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  setProvider(createMockProvider());
+});
+
+// --- DELIMITING ---
+describe.each(cases)('%s', (_name, testCase) => {
+  it('stays inside its quotes', () => {
+    const quoted = quote(testCase.text);
+    expect(quoted).not.toContain('\n');
+    expect(quoted.split('"')).toHaveLength(3);
+    expect(quoted).not.toMatch(HIDDEN);
+  });
+
+  it('cannot forge a delimiter', () => {
+    const delimited = block('finding', testCase.text);
+    expect(delimited.match(/<untrusted-/g)).toHaveLength(1);
+    expect(delimited.match(/<\/untrusted-/g)).toHaveLength(1);
+  });
+
+  it('renders no clickable script link', () => {
+    expect(unsafeLinks(markdownToHtml(testCase.text))).toEqual([]);
+  });
+});
+
+// --- DETECTOR ---
+describe('detectInjection', () => {
+  it.each(FINDINGS.filter(c => c.injected).map(c => [c.name, c] as const))('flags %s', (_name, testCase) => {
+    expect(detectInjection(testCase.text)).not.toEqual([]);
+  });
+
+  it.each(FINDINGS.filter(c => !c.injected).map(c => [c.name, c] as const))('leaves %s alone', (_name, testCase) => {
+    expect(detectInjection(testCase.text).map(f => f.rule)).toEqual([]);
+    if (!HIDDEN.test(testCase.text)) expect(sanitizeUntrusted(testCase.text)).toBe(testCase.text);
+  });
+});
+
+// --- PIPELINE ---
+describe('research pipeline', () => {
+  it('never passes a quarantined finding to the Reporter', async () => {
+    // One step per corpus finding; the mock web returns the case text as the step's finding
+    let reporterPrompt = '';
+    setProvider(createMockProvider({
+      research: ({ prompt }) => {
+        const index = Number(prompt.match(/"case-(\d+)"/)?.[1]);
+        return { text: FINDINGS[index].text, sources: [{ title: `Case ${index}`, uri: `https://example.com/case-${index}` }] };
+      },
+      report: ({ prompt }) => {
+        reporterPrompt = prompt;
+        return '# Report\n\nWritten from the notes.';
+      },
+    }));
+
+    const plan: ResearchPlan = {
+      topic: 'Prompt safety corpus',
+      steps: FINDINGS.map((_, i) => ({ id: `step-${i}`, query: `case-${i}`, status: 'pending' })),
+    };
+    const orchestrator = createResearchOrchestrator();
+    orchestrator.restore({ artifact: { title: plan.topic, content: '', phase: 'reviewing', sources: [] }, plan });
+    await orchestrator.approve(plan);
+    await orchestrator.continueWithoutFailed();
+
+    const state = orchestrator.getState();
+    expect(state.artifact.phase).toBe('completed');
+    const outcomes = FINDINGS.map((testCase, i) => ({
+      name: testCase.name,
+      quarantined: !!state.plan!.steps[i].quarantine,
+      reachedReporter: reporterPrompt.includes(sanitizeUntrusted(testCase.text).trim()),
+    }));
+    expect(outcomes).toEqual(FINDINGS.map(c => ({ name: c.name, quarantined: c.injected, reachedReporter: !c.injected })));
+  });
+});
@@ -0,0 +1,103 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Schema, Type } from "@google/genai";
+import { Source } from "../../types";
+import { JsonSchema, ModelProvider } from "./types";
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+// Gemini expects its own enum-typed schema flavour
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+const toUsage = (model: string, metadata?: GenerateContentResponseUsageMetadata) => ({
+  model,
+  inputTokens: metadata?.promptTokenCount || 0,
+  // Thinking tokens are billed as output
+  outputTokens: (metadata?.candidatesTokenCount || 0) + (metadata?.thoughtsTokenCount || 0),
+});
+
+export const createGeminiProvider = (apiKey: string, defaultModel = 'gemini-2.5-flash'): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel,
+
+    generateJson: async ({ model = defaultModel, prompt, systemInstruction, temperature, signal, onUsage, schema }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          temperature,
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+        }
+      });
+      onUsage?.(toUsage(model, response.usageMetadata));
+      return response.text || '';
+    },
+
+    research: async ({ model = defaultModel, prompt, systemInstruction, temperature, signal, onUsage }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          temperature,
+          abortSignal: signal,
+          tools: [{ googleSearch: {} }],
+        }
+      });
+      onUsage?.(toUsage(model, response.usageMetadata));
+
+      // Extract sources from the search grounding metadata
+      const sources: Source[] = [];
+      const grounding = response.candidates?.[0]?.groundingMetadata;
+      const groundingChunks = grounding?.groundingChunks;
+      if (groundingChunks) {
+        groundingChunks.forEach((chunk: any) => {
+          if (chunk.web && chunk.web.uri && chunk.web.title) {
+            sources.push({ title: chunk.web.title, uri: chunk.web.uri });
+          }
+        });
+      }
+
+      return { text: response.text || '', sources, grounding };
+    },
+
+    streamText: async function* ({ model = defaultModel, prompt, systemInstruction, temperature, signal, onUsage }) {
+      const responseStream = await ai.models.generateContentStream({
+        model,
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        config: { systemInstruction, temperature, abortSignal: signal }
+      });
+
+      // Each chunk carries the running totals; the last one has the final counts
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      for await (const chunk of responseStream) {
+        usage = chunk.usageMetadata || usage;
+        if (chunk.text) {
+          yield chunk.text;
+        }
+      }
+      onUsage?.(toUsage(model, usage));
+    },
+  };
+};
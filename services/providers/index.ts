@@ -0,0 +1,37 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openai";
+import { ModelProvider } from "./types";
+
+export * from "./types";
+export { createGeminiProvider, createMockProvider, createOpenAICompatibleProvider };
+
+// Picks a backend from MODEL_PROVIDER (gemini | openai | mock), defaulting to Gemini
+export const createProviderFromEnv = (): ModelProvider => {
+  switch (process.env.MODEL_PROVIDER) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel: process.env.OPENAI_MODEL || 'llama3.1',
+      });
+    case 'mock':
+      return createMockProvider({ latencyMs: 150 });
+    default:
+      return createGeminiProvider(process.env.API_KEY || '');
+  }
+};
+
+// The active provider is created lazily so nothing touches the network at import time
+let activeProvider: ModelProvider | null = null;
+
+export const getProvider = (): ModelProvider => {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+};
+
+export const setProvider = (provider: ModelProvider) => {
+  activeProvider = provider;
+};
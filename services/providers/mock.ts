@@ -0,0 +1,137 @@
+import { GenerateRequest, JsonRequest, JsonSchema, ModelProvider, ResearchResult } from "./types";
+
+// Every handler is a pure function of the request, so the same prompt always yields the same output.
+export interface MockScript {
+  json: (request: JsonRequest) => unknown;
+  research: (request: GenerateRequest) => ResearchResult;
+  report: (request: GenerateRequest) => string;
+  // Characters per streamed chunk
+  chunkSize: number;
+  // Artificial delay per call / chunk, handy for demos
+  latencyMs: number;
+}
+
+// Honours the request signal so pause/stop behave like they do against a real backend
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  if (ms <= 0) return resolve();
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// First double-quoted fragment in a prompt, which is where the agents put the topic or query
+const quoted = (prompt: string) => prompt.match(/"([^"]+)"/)?.[1] || prompt.slice(0, 60);
+
+// Rough token count (about four characters per token), so usage tracking and budgets work offline
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const reportUsage = (request: GenerateRequest, output: string) => request.onUsage?.({
+  model: request.model || 'mock-1',
+  inputTokens: estimateTokens((request.systemInstruction || '') + request.prompt),
+  outputTokens: estimateTokens(output),
+});
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'item';
+
+// Builds a value that satisfies the schema, seeded by the prompt
+export const synthesizeFromSchema = (schema: JsonSchema, seed: string, path = ''): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, synthesizeFromSchema(value, seed, path ? `${path}.${key}` : key)])
+      );
+    case 'array':
+      return schema.items
+        ? [1, 2, 3].map(i => synthesizeFromSchema(schema.items!, seed, `${path} ${i}`))
+        : [];
+    case 'string':
+      return schema.enum?.[0] ?? `${seed} (${path || 'value'})`;
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return false;
+  }
+};
+
+const defaultScript: MockScript = {
+  json: ({ prompt, schema }) => synthesizeFromSchema(schema, quoted(prompt)),
+
+  research: ({ prompt }) => {
+    const query = quoted(prompt);
+    const slug = slugify(query);
+    return {
+      text: `Mock finding for "${query}". Key fact: **${query}** has been covered by two reference sources.`,
+      sources: [
+        { title: `${query} — Overview`, uri: `https://example.com/${slug}/overview` },
+        { title: `${query} — Analysis`, uri: `https://example.org/${slug}/analysis` },
+      ],
+    };
+  },
+
+  report: ({ prompt, systemInstruction }) => {
+    const topic = quoted(systemInstruction || prompt);
+    // Each note block carries its query and the citation numbers it may use
+    const notes = prompt.split('### Source: ').slice(1).map(block => {
+      const citations = [...block.matchAll(/\[(\d+)\]/g)].map(m => m[1]);
+      const query = block.split('\n')[0].trim();
+      return citations.length ? `${query} [${citations.join(', ')}]` : query;
+    });
+    return [
+      `# ${topic}`,
+      '',
+      '## Executive Summary',
+      `This is a scripted mock report on **${topic}** built from ${notes.length} research notes.`,
+      '',
+      '## Detailed Analysis',
+      ...notes.map(note => `- ${note}`),
+      '',
+      '## Conclusion',
+      'The mock provider produced this report without any network access.',
+    ].join('\n');
+  },
+
+  chunkSize: 24,
+  latencyMs: 0,
+};
+
+export const createMockProvider = (script: Partial<MockScript> = {}): ModelProvider => {
+  const { json, research, report, chunkSize, latencyMs } = { ...defaultScript, ...script };
+
+  return {
+    id: 'mock',
+    label: 'Scripted mock',
+    defaultModel: 'mock-1',
+
+    generateJson: async (request) => {
+      await sleep(latencyMs, request.signal);
+      const text = JSON.stringify(json(request));
+      reportUsage(request, text);
+      return text;
+    },
+
+    research: async (request) => {
+      await sleep(latencyMs, request.signal);
+      const result = research(request);
+      reportUsage(request, result.text);
+      return result;
+    },
+
+    streamText: async function* (request) {
+      const text = report(request);
+      for (let i = 0; i < text.length; i += chunkSize) {
+        await sleep(latencyMs, request.signal);
+        yield text.slice(i, i + chunkSize);
+      }
+      reportUsage(request, text);
+    },
+  };
+};
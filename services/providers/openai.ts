@@ -0,0 +1,96 @@
+import { GenerateRequest, ModelProvider } from "./types";
+
+export interface OpenAICompatibleConfig {
+  // e.g. http://localhost:11434/v1 for Ollama, http://localhost:8000/v1 for vLLM
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+}
+
+// Talks to any server that implements the OpenAI /chat/completions API (Ollama, vLLM, LM Studio, llama.cpp...).
+// These backends have no built-in web search, so the Researcher answers from model knowledge and returns no sources.
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, defaultModel }: OpenAICompatibleConfig): ModelProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const buildBody = ({ model, prompt, systemInstruction, temperature }: GenerateRequest) => ({
+    model: model || defaultModel,
+    temperature,
+    messages: [
+      ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+      { role: 'user', content: prompt }
+    ],
+  });
+
+  const post = async (body: object, signal?: AbortSignal) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible request failed (${response.status}): ${await response.text()}`);
+    }
+    return response;
+  };
+
+  const reportUsage = (request: GenerateRequest, usage?: { prompt_tokens?: number; completion_tokens?: number }) =>
+    request.onUsage?.({
+      model: request.model || defaultModel,
+      inputTokens: usage?.prompt_tokens || 0,
+      outputTokens: usage?.completion_tokens || 0,
+    });
+
+  const complete = async (request: GenerateRequest, extra: object = {}) => {
+    const response = await post({ ...buildBody(request), ...extra }, request.signal);
+    const json = await response.json();
+    reportUsage(request, json.usage);
+    return (json.choices?.[0]?.message?.content as string | undefined) || '';
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    defaultModel,
+
+    generateJson: (request) => complete(request, {
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: request.schema }
+      }
+    }),
+
+    research: async (request) => ({ text: await complete(request), sources: [] }),
+
+    streamText: async function* (request) {
+      // Servers that support it send the usage in a final chunk without choices
+      const response = await post({ ...buildBody(request), stream: true, stream_options: { include_usage: true } }, request.signal);
+      if (!response.body) return;
+
+      // Parse the server-sent event stream line by line
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let usage;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!data || data === '[DONE]' || !line.trim().startsWith('data:')) continue;
+          const json = JSON.parse(data);
+          usage = json.usage || usage;
+          const text = json.choices?.[0]?.delta?.content;
+          if (text) yield text as string;
+        }
+      }
+      reportUsage(request, usage);
+    },
+  };
+};
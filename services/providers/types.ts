@@ -0,0 +1,47 @@
+import { Source, TokenUsage } from "../../types";
+
+// A small JSON-schema subset that every backend can express for structured output.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface GenerateRequest {
+  // Falls back to the provider's default model when omitted
+  model?: string;
+  prompt: string;
+  systemInstruction?: string;
+  temperature?: number;
+  // Aborts the underlying request (or stream) when the run is paused or stopped
+  signal?: AbortSignal;
+  // Called once per completed call with the token counts the backend reported
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface JsonRequest extends GenerateRequest {
+  schema: JsonSchema;
+}
+
+export interface ResearchResult {
+  text: string;
+  sources: Source[];
+  // Raw grounding metadata, kept for the trace
+  grounding?: unknown;
+}
+
+// The three capabilities the agents need from a model backend.
+export interface ModelProvider {
+  id: string;
+  label: string;
+  defaultModel: string;
+  // Planner-style calls: returns raw JSON text matching the schema
+  generateJson: (request: JsonRequest) => Promise<string>;
+  // Researcher-style calls: grounded answer plus the sources it used
+  research: (request: GenerateRequest) => Promise<ResearchResult>;
+  // Reporter-style calls: streamed text chunks
+  streamText: (request: GenerateRequest) => AsyncIterable<string>;
+}
@@ -0,0 +1,56 @@
+export interface RetryOptions {
+  // Extra attempts after the first one
+  retries: number;
+  // Delay before the first retry; doubles on each subsequent one
+  baseDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 2, baseDelayMs: 1000 };
+
+const TRANSIENT_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_PATTERN = /\b(408|429|500|502|503|504)\b|UNAVAILABLE|RESOURCE_EXHAUSTED|DEADLINE_EXCEEDED|INTERNAL|overloaded|rate limit|timeout|timed out|fetch failed|network|ECONNRESET|ETIMEDOUT/i;
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: unknown })?.name === 'AbortError';
+
+// Rate limits, server hiccups and dropped connections are worth retrying; bad requests are not.
+export const isTransientError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return TRANSIENT_STATUS.has(status);
+  const message = error instanceof Error ? error.message : String(error);
+  return TRANSIENT_PATTERN.test(message);
+};
+
+export const backoffDelay = (attempt: number, { baseDelayMs }: RetryOptions) => baseDelayMs * 2 ** attempt;
+
+// Calls fn until it succeeds, a non-transient error occurs, or the retry budget runs out.
+// onRetry fires before each wait so callers can surface progress. An aborted signal ends the wait early.
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY,
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted || attempt >= options.retries || !isTransientError(error)) throw error;
+      const delayMs = backoffDelay(attempt, options);
+      onRetry?.(attempt + 1, error, delayMs);
+      await new Promise<void>((resolve, reject) => {
+        // The signal outlives the wait, so the listener goes once the timer fires
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, delayMs);
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+  }
+};
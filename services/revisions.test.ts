@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, listSections, replaceSection, sectionText } from './revisions';
+
+const REPORT = [
+  '# Solar power',
+  '',
+  'Intro.',
+  '',
+  '## Detailed Analysis',
+  '',
+  'Overview.',
+  '',
+  '### Pricing',
+  '',
+  'Panels got cheaper.',
+  '',
+  '```md',
+  '## Not a heading',
+  '```',
+  '',
+  '### Capacity ##',
+  '',
+  'Capacity doubled.',
+  '',
+  '## Conclusion',
+  '',
+  'Keep building.',
+].join('\n');
+
+const find = (content: string, path: string) => listSections(content).find(s => s.path === path);
+
+describe('listSections', () => {
+  it('addresses sections by their heading path, leaving out the title and fenced code', () => {
+    expect(listSections(REPORT).map(s => [s.path, s.level])).toEqual([
+      ['Detailed Analysis', 2],
+      ['Detailed Analysis › Pricing', 3],
+      ['Detailed Analysis › Capacity', 3],
+      ['Conclusion', 2],
+    ]);
+  });
+
+  it('runs a section until the next heading of the same or a higher level', () => {
+    expect(sectionText(REPORT, find(REPORT, 'Detailed Analysis')!)).toContain('Capacity doubled.');
+    expect(sectionText(REPORT, find(REPORT, 'Detailed Analysis › Pricing')!)).toBe('### Pricing\n\nPanels got cheaper.\n\n```md\n## Not a heading\n```');
+    expect(sectionText(REPORT, find(REPORT, 'Conclusion')!)).toBe('## Conclusion\n\nKeep building.');
+  });
+
+  it('finds nothing for a section the report does not have', () => {
+    expect(find(REPORT, 'Pricing')).toBeUndefined();
+    expect(find(REPORT, 'Detailed Analysis › Outlook')).toBeUndefined();
+    expect(listSections('# Only a title\n\nText.')).toEqual([]);
+  });
+});
+
+describe('replaceSection', () => {
+  it('swaps a section in the middle and keeps one blank line before the next heading', () => {
+    const revised = replaceSection(REPORT, find(REPORT, 'Detailed Analysis › Pricing')!, '\n### Pricing\n\nPanels cost 30% less.\n\n');
+    expect(sectionText(revised, find(revised, 'Detailed Analysis › Pricing')!)).toBe('### Pricing\n\nPanels cost 30% less.');
+    expect(revised).toContain('Panels cost 30% less.\n\n### Capacity ##');
+    expect(listSections(revised).map(s => s.path)).toEqual(listSections(REPORT).map(s => s.path));
+  });
+
+  it('swaps the last section without adding trailing lines', () => {
+    const revised = replaceSection(REPORT, find(REPORT, 'Conclusion')!, '## Conclusion\n\nBuild more storage.');
+    expect(revised.endsWith('## Conclusion\n\nBuild more storage.')).toBe(true);
+    expect(revised.startsWith(REPORT.slice(0, REPORT.indexOf('## Conclusion')))).toBe(true);
+  });
+});
+
+describe('diffLines', () => {
+  it('marks unchanged, added and removed lines with their line numbers', () => {
+    expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual([
+      { kind: 'same', left: { line: 1, text: 'a' }, right: { line: 1, text: 'a' } },
+      { kind: 'removed', left: { line: 2, text: 'b' } },
+      { kind: 'same', left: { line: 3, text: 'c' }, right: { line: 2, text: 'c' } },
+      { kind: 'added', right: { line: 3, text: 'd' } },
+    ]);
+  });
+
+  it('pairs removals with the additions next to them as changed lines', () => {
+    expect(diffLines('a\nold 1\nold 2\nold 3\nz', 'a\nnew 1\nnew 2\nz').map(r => [r.kind, r.left?.text, r.right?.text])).toEqual([
+      ['same', 'a', 'a'],
+      ['changed', 'old 1', 'new 1'],
+      ['changed', 'old 2', 'new 2'],
+      ['removed', 'old 3', undefined],
+      ['same', 'z', 'z'],
+    ]);
+  });
+
+  it('reports identical text as unchanged', () => {
+    expect(diffLines(REPORT, REPORT).every(r => r.kind === 'same')).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import { ReportRevision } from "../types";
+
+// --- REPORT REVISIONS ---
+// Sections are addressed by their heading path ("Detailed Analysis › Pricing") so the user can rewrite one
+// without touching the rest. Every change to the report is kept as a revision that can be compared or restored.
+
+export interface ReportSection {
+  // Heading titles from the outermost ## down to this one, joined with ›
+  path: string;
+  title: string;
+  level: number;
+  // Line range in the report, heading included, end exclusive
+  start: number;
+  end: number;
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+// Sections from ## down; the # title isn't a section of its own. A section runs until the next heading of the same or a higher level.
+export const listSections = (content: string): ReportSection[] => {
+  const lines = content.split('\n');
+  const headings: { level: number; title: string; line: number }[] = [];
+  let inFence = false;
+  lines.forEach((line, i) => {
+    if (FENCE.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(HEADING);
+    if (match && match[1].length >= 2) headings.push({ level: match[1].length, title: match[2], line: i });
+  });
+
+  const trail: string[] = [];
+  return headings.map((heading, i) => {
+    trail.length = heading.level - 2;
+    trail[heading.level - 2] = heading.title;
+    const next = headings.slice(i + 1).find(h => h.level <= heading.level);
+    return {
+      path: trail.filter(Boolean).join(' › '),
+      title: heading.title,
+      level: heading.level,
+      start: heading.line,
+      end: next ? next.line : lines.length
+    };
+  });
+};
+
+export const sectionText = (content: string, section: ReportSection) =>
+  content.split('\n').slice(section.start, section.end).join('\n').trim();
+
+// Swaps in the rewritten section, keeping one blank line before whatever follows it
+export const replaceSection = (content: string, section: ReportSection, replacement: string) => {
+  const lines = content.split('\n');
+  const after = lines.slice(section.end);
+  return [...lines.slice(0, section.start), ...replacement.trim().split('\n'), ...(after.length ? ['', ...after] : [])].join('\n');
+};
+
+export const nextRevisionId = (revisions: ReportRevision[] = []) => `rev-${revisions.length + 1}`;
+
+// --- DIFF ---
+export interface DiffRow {
+  kind: 'same' | 'removed' | 'added' | 'changed';
+  // 1-based line numbers; a side is missing where the other one added lines
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+// Line diff via longest common subsequence. Runs of removals next to runs of additions are paired up as
+// changed lines so the side-by-side view lines them up.
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffRow[] = [];
+  let added: DiffRow[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) rows.push({ kind: 'changed', left: removed[k].left, right: added[k].right });
+    rows.push(...removed.slice(paired), ...added.slice(paired));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ kind: 'same', left: { line: i + 1, text: a[i] }, right: { line: j + 1, text: b[j] } });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push({ kind: 'added', right: { line: j + 1, text: b[j] } });
+      j++;
+    } else {
+      removed.push({ kind: 'removed', left: { line: i + 1, text: a[i] } });
+      i++;
+    }
+  }
+  flush();
+  return rows;
+};
@@ -0,0 +1,135 @@
+import { ReportTemplate, ResearchMonitor, ResearchSession, SettingsPreset } from "../types";
+
+// --- SESSION HISTORY ---
+// Thin promise wrapper over IndexedDB. Every run is stored as one record keyed by session id.
+// Saved settings presets, custom report templates and monitors live in further stores of the same database.
+
+const DB_NAME = 'deepdive';
+const DB_VERSION = 4;
+const SESSIONS = 'sessions';
+const PRESETS = 'presets';
+const TEMPLATES = 'templates';
+const MONITORS = 'monitors';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(PRESETS)) {
+          db.createObjectStore(PRESETS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(TEMPLATES)) {
+          db.createObjectStore(TEMPLATES, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MONITORS)) {
+          db.createObjectStore(MONITORS, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = SESSIONS
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Most recently updated first
+export const listSessions = async (): Promise<ResearchSession[]> => {
+  const sessions = await withStore<ResearchSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = (id: string) =>
+  withStore<ResearchSession | undefined>('readonly', store => store.get(id));
+
+export const saveSession = async (session: ResearchSession) => {
+  await withStore('readwrite', store => store.put(session));
+  return session;
+};
+
+export const renameSession = async (id: string, title: string) => {
+  const session = await getSession(id);
+  if (!session) return undefined;
+  return saveSession({ ...session, title, updatedAt: Date.now() });
+};
+
+export const deleteSession = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// Case-insensitive match on title, topic, plan steps and report text
+export const matchesSearch = (session: ResearchSession, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    session.title,
+    session.topic,
+    session.artifact.content,
+    ...(session.plan?.steps.map(s => s.query) || [])
+  ].some(text => text.toLowerCase().includes(needle));
+};
+
+// --- SETTINGS PRESETS ---
+export const listPresets = async (): Promise<SettingsPreset[]> => {
+  const presets = await withStore<SettingsPreset[]>('readonly', store => store.getAll(), PRESETS);
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePreset = async (preset: SettingsPreset) => {
+  await withStore('readwrite', store => store.put(preset), PRESETS);
+  return preset;
+};
+
+export const deletePreset = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id), PRESETS);
+};
+
+// --- REPORT TEMPLATES ---
+export const listTemplates = async (): Promise<ReportTemplate[]> => {
+  const templates = await withStore<ReportTemplate[]>('readonly', store => store.getAll(), TEMPLATES);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = async (template: ReportTemplate) => {
+  await withStore('readwrite', store => store.put(template), TEMPLATES);
+  return template;
+};
+
+export const deleteTemplate = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id), TEMPLATES);
+};
+
+// --- MONITORS ---
+// Oldest first, so the list keeps its order as monitors run
+export const listMonitors = async (): Promise<ResearchMonitor[]> => {
+  const monitors = await withStore<ResearchMonitor[]>('readonly', store => store.getAll(), MONITORS);
+  return monitors.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveMonitor = async (monitor: ResearchMonitor) => {
+  await withStore('readwrite', store => store.put(monitor), MONITORS);
+  return monitor;
+};
+
+export const deleteMonitor = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id), MONITORS);
+};
@@ -0,0 +1,60 @@
+import { AgentName, ResearchSettings, SettingsPreset } from "../types";
+
+// --- RESEARCH SETTINGS ---
+// What used to be hardcoded in the agents. The active settings travel with the run state
+// and are saved with each session.
+
+export const DEFAULT_SETTINGS: ResearchSettings = {
+  models: {},
+  minSteps: 3,
+  maxSteps: 5,
+  temperature: 0.7,
+  reportLength: 'medium',
+  language: 'English',
+};
+
+export const AGENT_NAMES: AgentName[] = ['planner', 'researcher', 'analyst', 'reporter', 'critic', 'answerer', 'monitor', 'extractor'];
+
+// Approximate length the Reporter aims for
+export const REPORT_WORD_TARGETS: Record<ResearchSettings['reportLength'], number> = {
+  short: 600,
+  medium: 1500,
+  long: 3000,
+};
+
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  { id: 'builtin-balanced', name: 'Balanced', builtIn: true, settings: DEFAULT_SETTINGS },
+  {
+    id: 'builtin-quick',
+    name: 'Quick scan',
+    builtIn: true,
+    settings: { ...DEFAULT_SETTINGS, minSteps: 2, maxSteps: 3, temperature: 0.5, reportLength: 'short' }
+  },
+  {
+    id: 'builtin-thorough',
+    name: 'Thorough',
+    builtIn: true,
+    settings: { ...DEFAULT_SETTINGS, minSteps: 5, maxSteps: 8, temperature: 0.6, reportLength: 'long' }
+  },
+];
+
+// Model for one agent, or undefined to let the provider pick its default
+export const modelFor = (settings: ResearchSettings | undefined, agent: AgentName) =>
+  settings?.models[agent]?.trim() || undefined;
+
+// Fills gaps and clamps values from older sessions or hand-edited presets
+export const normalizeSettings = (settings?: Partial<ResearchSettings>): ResearchSettings => {
+  const merged = { ...DEFAULT_SETTINGS, ...settings, models: { ...settings?.models } };
+  const minSteps = Math.max(1, Math.min(10, Math.round(merged.minSteps)));
+  // Empty or non-positive limits mean no limit
+  const maxTokens = merged.budget?.maxTokens && merged.budget.maxTokens > 0 ? Math.round(merged.budget.maxTokens) : undefined;
+  const maxCost = merged.budget?.maxCost && merged.budget.maxCost > 0 ? merged.budget.maxCost : undefined;
+  return {
+    ...merged,
+    budget: maxTokens || maxCost ? { maxTokens, maxCost } : undefined,
+    minSteps,
+    maxSteps: Math.max(minSteps, Math.min(12, Math.round(merged.maxSteps))),
+    temperature: Math.max(0, Math.min(2, merged.temperature)),
+    language: merged.language.trim() || DEFAULT_SETTINGS.language,
+  };
+};
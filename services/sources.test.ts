@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ResearchStep, Source } from '../types';
+import { applySourcePolicy, canonicalizeUrl, citationNumbers, collectSources, emptySourcePolicy, sourceKey } from './sources';
+
+const REDIRECT = 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/';
+
+const step = (id: string, sources: Source[]): ResearchStep => ({ id, query: id, status: 'completed', sources });
+
+describe('canonicalizeUrl', () => {
+  it('folds scheme, www, tracking parameters, query order, fragments and trailing slashes', () => {
+    expect(canonicalizeUrl('http://www.example.com/a/?utm_source=x&b=2&a=1#top')).toBe('https://example.com/a?a=1&b=2');
+  });
+
+  it('unwraps known redirect wrappers', () => {
+    expect(canonicalizeUrl('https://www.google.com/url?q=https://example.com/a/')).toBe('https://example.com/a');
+  });
+});
+
+describe('sourceKey', () => {
+  it('keys grounding redirects by the domain and title they point to', () => {
+    const a = { title: 'reuters.com', uri: `${REDIRECT}AbC123` };
+    const b = { title: 'Reuters.com', uri: `${REDIRECT}XyZ789` };
+    const c = { title: 'apnews.com', uri: `${REDIRECT}AbC123x` };
+    expect(sourceKey(a)).toBe(sourceKey(b));
+    expect(sourceKey(a)).not.toBe(sourceKey(c));
+  });
+});
+
+describe('applySourcePolicy', () => {
+  it('keeps the uri the model returned', () => {
+    const sources = [
+      { title: 'Plain http site', uri: 'http://old.example.org/page/' },
+      { title: 'Section', uri: 'https://example.com/guide#install' },
+      { title: 'Search result', uri: 'https://example.com/item?ref=feed&id=4' },
+    ];
+    expect(applySourcePolicy(sources).map(s => s.uri)).toEqual(sources.map(s => s.uri));
+  });
+
+  it('drops duplicates of the same page, keeping the first link', () => {
+    const sources = applySourcePolicy([
+      { title: 'Report', uri: 'https://www.example.com/report?utm_campaign=x' },
+      { title: 'Report again', uri: 'http://example.com/report/' },
+    ]);
+    expect(sources).toHaveLength(1);
+    expect(sources[0].uri).toBe('https://www.example.com/report?utm_campaign=x');
+  });
+
+  it('drops grounding redirects that lead to the same source', () => {
+    const sources = applySourcePolicy([
+      { title: 'nature.com', uri: `${REDIRECT}first` },
+      { title: 'nature.com', uri: `${REDIRECT}second` },
+      { title: 'reuters.com', uri: `${REDIRECT}third` },
+    ]);
+    expect(sources.map(s => [s.uri, s.domain, s.tier])).toEqual([
+      [`${REDIRECT}first`, 'nature.com', 'academic'],
+      [`${REDIRECT}third`, 'reuters.com', 'news'],
+    ]);
+  });
+
+  it('still filters blocked domains', () => {
+    const policy = { ...emptySourcePolicy, block: ['example.com'] };
+    expect(applySourcePolicy([{ title: 'x', uri: 'http://www.example.com/a' }, { title: 'example.com', uri: `${REDIRECT}a` }], policy)).toEqual([]);
+  });
+});
+
+describe('collectSources', () => {
+  it('numbers each grounding source once across steps', () => {
+    const sources = collectSources([
+      step('a', [{ title: 'who.int', uri: `${REDIRECT}1` }]),
+      step('b', [{ title: 'who.int', uri: `${REDIRECT}2` }, { title: 'un.org', uri: `${REDIRECT}3` }]),
+    ]);
+    expect(sources.map(s => s.title)).toEqual(['who.int', 'un.org']);
+    expect(citationNumbers(sources).get(sourceKey({ title: 'who.int', uri: `${REDIRECT}2` }))).toBe(1);
+  });
+});
@@ -0,0 +1,192 @@
+import { QualityTier, ResearchStep, Source, SourcePolicy } from "../types";
+
+// --- SOURCES ---
+// One ordered, de-duplicated source list per run. A source's position in it is its citation number,
+// so the Reporter prompt, the rendered report and the exports all agree on what [3] means.
+
+// --- CANONICAL URLS ---
+// Query parameters that only track the click, never change the page
+const TRACKING_PARAM = /^(utm_\w+|gclid|dclid|fbclid|msclkid|mc_cid|mc_eid|igshid|yclid|_hsenc|_hsmi|ref|ref_src|spm|cmpid|s_cid)$/i;
+
+// Redirect wrappers whose target is in a query parameter
+const REDIRECT_PARAMS: Record<string, string[]> = {
+  'google.com': ['q', 'url'],
+  'l.facebook.com': ['u'],
+  'out.reddit.com': ['url'],
+  'duckduckgo.com': ['uddg'],
+};
+
+// Search grounding returns opaque redirect links. Their target can't be resolved offline,
+// but the grounding title is the target's domain.
+const GROUNDING_REDIRECT = /^https:\/\/vertexaisearch\.cloud\.google\.com\/grounding-api-redirect\//;
+
+export const isGroundingRedirect = (uri: string) => GROUNDING_REDIRECT.test(uri);
+
+const bareHost = (hostname: string) => hostname.toLowerCase().replace(/^www\d?\./, '');
+
+// Canonical form used to de-duplicate sources: unwrapped redirects, https, no www, no tracking
+// parameters, sorted query, no fragment or trailing slash. Non-web uris (attached documents) pass through.
+export const canonicalizeUrl = (uri: string): string => {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return uri;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return uri;
+  if (isGroundingRedirect(uri)) return uri;
+
+  const host = bareHost(url.hostname);
+  const redirectParam = (REDIRECT_PARAMS[host] || []).find(p => url.searchParams.get(p)?.startsWith('http'));
+  if (redirectParam && (host !== 'google.com' || url.pathname === '/url')) {
+    return canonicalizeUrl(url.searchParams.get(redirectParam)!);
+  }
+
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAM.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length ? `?${new URLSearchParams(params).toString()}` : '';
+  const path = url.pathname.replace(/\/+$/, '');
+  const port = url.port && url.port !== '80' && url.port !== '443' ? `:${url.port}` : '';
+  return `https://${host}${port}${path}${query}`;
+};
+
+// Domain a source belongs to, without www. Undefined for attached documents.
+export const sourceDomain = (source: Source): string | undefined => {
+  if (source.type === 'document') return undefined;
+  if (isGroundingRedirect(source.uri) && /^[\w.-]+\.[a-z]{2,}$/i.test(source.title)) return bareHost(source.title);
+  try {
+    return bareHost(new URL(canonicalizeUrl(source.uri)).hostname);
+  } catch {
+    return undefined;
+  }
+};
+
+// Normalizes a user-entered list entry ("https://www.Example.com/path") to a bare domain
+export const normalizeDomain = (entry: string) =>
+  bareHost(entry.trim().replace(/^[a-z]+:\/\//i, '').split(/[/?#:]/)[0]);
+
+// True if domain is `pattern` or one of its subdomains
+export const matchesDomain = (domain: string, pattern: string) =>
+  domain === pattern || domain.endsWith(`.${pattern}`);
+
+// --- QUALITY TIERS ---
+export const QUALITY_TIERS: QualityTier[] = ['official', 'academic', 'news', 'reference', 'forum', 'web'];
+
+// Lower is better; used to order sources within a note and to label them for the Reporter
+export const TIER_RANK: Record<QualityTier, number> = { official: 0, academic: 1, reference: 2, news: 3, web: 4, forum: 5 };
+
+const DEFAULT_TIER_RULES: { tier: QualityTier; suffixes?: RegExp; domains?: string[] }[] = [
+  { tier: 'official', suffixes: /\.(gov|mil|int)(\.[a-z]{2})?$|\.gov\.[a-z]{2}$|\.gc\.ca$|\.europa\.eu$/, domains: ['europa.eu', 'who.int', 'un.org', 'oecd.org', 'worldbank.org', 'imf.org'] },
+  {
+    tier: 'academic',
+    suffixes: /\.(edu|ac\.[a-z]{2}|edu\.[a-z]{2})$/,
+    domains: ['arxiv.org', 'doi.org', 'nature.com', 'science.org', 'sciencedirect.com', 'springer.com', 'wiley.com', 'ieee.org',
+      'acm.org', 'jstor.org', 'plos.org', 'frontiersin.org', 'mdpi.com', 'semanticscholar.org', 'researchgate.net', 'ssrn.com', 'biorxiv.org', 'medrxiv.org']
+  },
+  { tier: 'reference', domains: ['wikipedia.org', 'britannica.com', 'investopedia.com'] },
+  {
+    tier: 'news',
+    domains: ['reuters.com', 'apnews.com', 'bbc.com', 'bbc.co.uk', 'nytimes.com', 'theguardian.com', 'washingtonpost.com', 'ft.com',
+      'economist.com', 'bloomberg.com', 'wsj.com', 'cnn.com', 'npr.org', 'aljazeera.com', 'cnbc.com', 'theverge.com', 'techcrunch.com', 'wired.com']
+  },
+  { tier: 'forum', domains: ['reddit.com', 'quora.com', 'stackexchange.com', 'stackoverflow.com', 'news.ycombinator.com', 'medium.com', 'substack.com'] },
+];
+
+// Policy overrides win over the built-in rules; unknown domains are plain 'web'
+export const classifyDomain = (domain: string, policy?: SourcePolicy): QualityTier => {
+  const override = Object.entries(policy?.tiers || {})
+    .filter(([pattern]) => matchesDomain(domain, pattern))
+    // The most specific pattern wins
+    .sort(([a], [b]) => b.length - a.length)[0];
+  if (override) return override[1];
+
+  const rule = DEFAULT_TIER_RULES.find(r =>
+    r.suffixes?.test(domain) || r.domains?.some(pattern => matchesDomain(domain, pattern)));
+  return rule?.tier || 'web';
+};
+
+// --- SOURCE POLICY ---
+export const emptySourcePolicy: SourcePolicy = { allow: [], block: [], allowOnly: false, tiers: {} };
+
+// Runs over a step's raw sources when it finishes: de-duplicates them by sourceKey, drops blocked
+// domains (and, with allowOnly, everything off the allow list), rates the rest and puts the best first.
+// Sources outside a non-empty allow list are kept but down-ranked. Attached documents are never filtered.
+// The uri stays as the model returned it: the canonical form is a key, not always a working link.
+export const applySourcePolicy = (sources: Source[], policy: SourcePolicy = emptySourcePolicy): Source[] => {
+  const seen = new Set<string>();
+  const rated: Source[] = [];
+  const documents: Source[] = [];
+
+  sources.forEach(source => {
+    if (source.type === 'document') {
+      if (!seen.has(source.uri)) documents.push(source);
+      seen.add(source.uri);
+      return;
+    }
+    const key = sourceKey(source);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const domain = sourceDomain(source);
+    const allowed = !!domain && policy.allow.some(pattern => matchesDomain(domain, pattern));
+    if (domain && policy.block.some(pattern => matchesDomain(domain, pattern))) return;
+    if (policy.allowOnly && policy.allow.length > 0 && !allowed) return;
+
+    rated.push({
+      ...source,
+      type: 'web',
+      domain,
+      tier: domain ? classifyDomain(domain, policy) : 'web',
+      ...(policy.allow.length > 0 && !allowed ? { downranked: true } : {})
+    });
+  });
+
+  const rank = (s: Source) => (s.downranked ? 10 : 0) + TIER_RANK[s.tier || 'web'];
+  return [...rated.sort((a, b) => rank(a) - rank(b)), ...documents];
+};
+
+// --- CITATION NUMBERS ---
+// Key sources are de-duplicated by; also catches duplicates in sessions saved before canonicalization.
+// Every grounding redirect is a different url, so those are keyed by the domain and title they point to.
+export const sourceKey = (source: Source) => isGroundingRedirect(source.uri)
+  ? `grounding:${sourceDomain(source) || ''}|${source.title.trim().toLowerCase()}`
+  : canonicalizeUrl(source.uri);
+
+// Built in plan order from completed steps only (first occurrence wins), so numbering never depends on
+// which step happened to finish first.
+export const collectSources = (steps: ResearchStep[]): Source[] => {
+  const seen = new Set<string>();
+  const sources: Source[] = [];
+  steps.forEach(step => {
+    if (step.status !== 'completed') return;
+    (step.sources || []).forEach(source => {
+      const key = sourceKey(source);
+      if (seen.has(key)) return;
+      seen.add(key);
+      sources.push(source);
+    });
+  });
+  return sources;
+};
+
+// 1-based citation number for each source, looked up by sourceKey
+export const citationNumbers = (sources: Source[]) =>
+  new Map(sources.map((source, i) => [sourceKey(source), i + 1]));
+
+// Sources grouped by domain in order of first appearance, keeping their citation numbers.
+// Attached documents form their own group under the key ''.
+export const groupByDomain = (sources: Source[]) => {
+  const groups = new Map<string, { source: Source; n: number }[]>();
+  sources.forEach((source, i) => {
+    const domain = source.type === 'document' ? '' : (source.domain || sourceDomain(source) || source.uri);
+    groups.set(domain, [...(groups.get(domain) || []), { source, n: i + 1 }]);
+  });
+  return [...groups.entries()].map(([domain, entries]) => ({ domain, entries }));
+};
+
+// Matches inline markers such as [3] or [1, 4]
+export const CITATION_PATTERN = /\[\d+(?:\s*,\s*\d+)*\]/g;
+
+export const parseCitation = (marker: string): number[] =>
+  marker.replace(/[\[\]\s]/g, '').split(',').map(Number).filter(n => Number.isInteger(n) && n > 0);
@@ -0,0 +1,119 @@
+import { ReportTemplate, ResearchSettings } from "../types";
+
+// --- REPORT TEMPLATES ---
+// A template is the list of sections the Reporter writes and the Planner researches for.
+// Custom templates are saved in the session store next to the settings presets.
+
+export const STANDARD_TEMPLATE: ReportTemplate = {
+  id: 'builtin-standard',
+  name: 'Standard report',
+  description: 'Summary, an analysis organized by research aspect, and a conclusion.',
+  builtIn: true,
+  sections: [
+    { title: 'Executive Summary', guidance: 'The key findings in a few sentences.' },
+    { title: 'Detailed Analysis', guidance: 'One subsection (## or ###) per research aspect, named after the aspect.' },
+    { title: 'Conclusion', guidance: 'What the findings mean taken together.' },
+  ],
+};
+
+export const BUILT_IN_TEMPLATES: ReportTemplate[] = [
+  STANDARD_TEMPLATE,
+  {
+    id: 'builtin-executive-brief',
+    name: 'Executive brief',
+    description: 'One page for decision makers: bottom line first, then implications.',
+    builtIn: true,
+    guidance: 'Be concise and direct. Prefer short bullet points over paragraphs. Avoid jargon.',
+    sections: [
+      { title: 'Bottom Line', guidance: 'The single most important conclusion, in two or three sentences.' },
+      { title: 'Key Findings', guidance: 'Three to six bullet points with the supporting facts and figures.' },
+      { title: 'Implications', guidance: 'What this means for someone who has to act on it.' },
+      { title: 'Recommended Next Steps', guidance: 'Concrete actions or decisions the findings suggest.' },
+    ],
+  },
+  {
+    id: 'builtin-literature-review',
+    name: 'Academic literature review',
+    description: 'Themes, methods and open questions across the published work.',
+    builtIn: true,
+    guidance: 'Use a formal, neutral academic register. Attribute findings to their studies and prefer academic sources.',
+    sections: [
+      { title: 'Introduction', guidance: 'Scope of the review and why the topic matters.' },
+      { title: 'Background', guidance: 'Key concepts, definitions and how the field developed.' },
+      { title: 'Themes in the Literature', guidance: 'One subsection per major theme, comparing what different studies found.' },
+      { title: 'Methodologies', guidance: 'How the topic has been studied and the strengths and limits of those methods.' },
+      { title: 'Gaps and Open Questions', guidance: 'Where findings disagree or evidence is missing.' },
+      { title: 'Conclusion', guidance: 'The state of knowledge and directions for future research.' },
+    ],
+  },
+  {
+    id: 'builtin-competitive-comparison',
+    name: 'Competitive comparison',
+    description: 'The main players side by side, with a comparison table.',
+    builtIn: true,
+    sections: [
+      { title: 'Overview', guidance: 'The market or category and the players being compared.' },
+      { title: 'Comparison Table', guidance: 'A Markdown table with one row per player and columns for the main criteria (e.g. pricing, features, market share).' },
+      { title: 'Player Profiles', guidance: 'One subsection per player: positioning, strengths and weaknesses.' },
+      { title: 'Differentiators', guidance: 'What actually sets the players apart.' },
+      { title: 'Verdict', guidance: 'Which player fits which needs best.' },
+    ],
+  },
+  {
+    id: 'builtin-swot',
+    name: 'SWOT analysis',
+    description: 'Strengths, weaknesses, opportunities and threats.',
+    builtIn: true,
+    sections: [
+      { title: 'Context', guidance: 'The subject of the analysis and its current situation.' },
+      { title: 'Strengths', guidance: 'Internal advantages, as bullet points with evidence.' },
+      { title: 'Weaknesses', guidance: 'Internal limitations, as bullet points with evidence.' },
+      { title: 'Opportunities', guidance: 'External trends and openings it could use.' },
+      { title: 'Threats', guidance: 'External risks, competitors and headwinds.' },
+      { title: 'Strategic Outlook', guidance: 'How the four quadrants play together.' },
+    ],
+  },
+  {
+    id: 'builtin-faq',
+    name: 'FAQ',
+    description: 'The questions people actually ask, answered one by one.',
+    builtIn: true,
+    guidance: 'Write each question as a ### heading phrased the way a newcomer would ask it, followed by a short answer.',
+    sections: [
+      { title: 'Basics', guidance: 'What it is and why it matters.' },
+      { title: 'How It Works', guidance: 'Questions about the mechanics and details.' },
+      { title: 'Practical Questions', guidance: 'Costs, availability, getting started, common problems.' },
+      { title: 'Controversies and Misconceptions', guidance: 'Disputed points and common misunderstandings.' },
+    ],
+  },
+  {
+    id: 'builtin-timeline',
+    name: 'Timeline',
+    description: 'How the topic developed, in chronological order.',
+    builtIn: true,
+    guidance: 'Give dates as precisely as the notes allow. Keep events in chronological order.',
+    sections: [
+      { title: 'Overview', guidance: 'The arc of the story in a paragraph.' },
+      { title: 'Timeline', guidance: 'A chronological list of dated events, grouped under ### period headings.' },
+      { title: 'Turning Points', guidance: 'The events that changed the course of things, and why.' },
+      { title: 'Current State and Outlook', guidance: 'Where things stand now and what is expected next.' },
+    ],
+  },
+];
+
+export const templateFor = (settings?: ResearchSettings) => settings?.template || STANDARD_TEMPLATE;
+
+// Section list as it appears in the Planner and Reporter prompts
+export const describeSections = (template: ReportTemplate) =>
+  template.sections.map((section, i) => `${i + 1}. ${section.title}${section.guidance ? ` (${section.guidance})` : ''}`).join('\n    ');
+
+// Drops empty sections and whitespace from a template edited in the UI
+export const normalizeTemplate = (template: ReportTemplate): ReportTemplate => ({
+  ...template,
+  name: template.name.trim() || 'Untitled template',
+  description: template.description.trim(),
+  guidance: template.guidance?.trim() || undefined,
+  sections: template.sections
+    .map(section => ({ title: section.title.trim(), guidance: section.guidance.trim() }))
+    .filter(section => section.title),
+});
@@ -0,0 +1,174 @@
+import { AgentName, ComparisonSpec, DeepResearchConfig, ResearchSettings, TokenUsage, TraceCall, TraceEntry } from "../types";
+import { createMockProvider, GenerateRequest, ModelProvider } from "./providers";
+import { estimateTokens } from "./providers/mock";
+
+// --- TRACE ---
+// Every agent call is recorded with its prompt, configuration, response, grounding, latency and error.
+// The trace is kept with the session, exported as JSON for bug reports and can be replayed offline: the replay
+// provider answers each call with the response recorded for the same prompt.
+
+export type NewTraceCall = Omit<TraceCall, 'id'>;
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Wraps the provider for one agent's calls. The call is recorded once it settles, failures included.
+export const traceProvider = (provider: ModelProvider, agent: AgentName, onTrace: (call: NewTraceCall) => void): ModelProvider => {
+  const begin = <R extends GenerateRequest & { schema?: unknown }>(method: TraceCall['method'], request: R) => {
+    const startedAt = Date.now();
+    let usage: TokenUsage | undefined;
+    const onUsage = (tokens: TokenUsage) => {
+      usage = tokens;
+      request.onUsage?.(tokens);
+    };
+    const settle = (result: Pick<TraceCall, 'response' | 'sources' | 'grounding'> & { error?: unknown }) => onTrace({
+      kind: 'call',
+      agent,
+      method,
+      provider: provider.id,
+      model: request.model || provider.defaultModel,
+      prompt: request.prompt,
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature,
+      schema: request.schema,
+      response: result.response,
+      sources: result.sources,
+      grounding: result.grounding,
+      usage,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      error: result.error === undefined ? undefined : errorMessage(result.error),
+      aborted: request.signal?.aborted || undefined,
+    });
+    return { request: { ...request, onUsage }, settle };
+  };
+
+  return {
+    ...provider,
+
+    generateJson: async (original) => {
+      const { request, settle } = begin('json', original);
+      try {
+        const text = await provider.generateJson(request);
+        settle({ response: text });
+        return text;
+      } catch (e) {
+        settle({ error: e });
+        throw e;
+      }
+    },
+
+    research: async (original) => {
+      const { request, settle } = begin('research', original);
+      try {
+        const result = await provider.research(request);
+        settle({ response: result.text, sources: result.sources, grounding: result.grounding });
+        return result;
+      } catch (e) {
+        settle({ error: e });
+        throw e;
+      }
+    },
+
+    // Also recorded when the consumer stops reading early, e.g. on pause
+    streamText: async function* (original) {
+      const { request, settle } = begin('stream', original);
+      let text = '';
+      let settled = false;
+      try {
+        for await (const chunk of provider.streamText(request)) {
+          text += chunk;
+          yield chunk;
+        }
+        settled = true;
+        settle({ response: text });
+      } catch (e) {
+        settled = true;
+        settle({ response: text || undefined, error: e });
+        throw e;
+      } finally {
+        if (!settled) settle({ response: text || undefined });
+      }
+    },
+  };
+};
+
+export const isTraceCall = (entry: TraceEntry): entry is TraceCall => entry.kind === 'call';
+
+export const entryTime = (entry: TraceEntry) => isTraceCall(entry) ? entry.startedAt : entry.at;
+
+// First call to last response, for laying out the timeline
+export const traceSpan = (trace: TraceEntry[]) => {
+  if (!trace.length) return { start: 0, end: 0 };
+  const start = Math.min(...trace.map(entryTime));
+  const end = Math.max(...trace.map(entry => isTraceCall(entry) ? entry.startedAt + entry.durationMs : entry.at));
+  return { start, end: Math.max(end, start + 1) };
+};
+
+// --- EXPORT ---
+export interface TraceExport {
+  format: 'deepdive-trace';
+  version: 1;
+  exportedAt: number;
+  topic: string;
+  // What a replay needs to take the same path as the recorded run
+  settings?: ResearchSettings;
+  comparison?: ComparisonSpec;
+  deep?: DeepResearchConfig;
+  entries: TraceEntry[];
+}
+
+export const toTraceJson = (run: Omit<TraceExport, 'format' | 'version' | 'exportedAt'>) => {
+  const data: TraceExport = { format: 'deepdive-trace', version: 1, exportedAt: Date.now(), ...run };
+  return JSON.stringify(data, null, 2);
+};
+
+export const parseTrace = (text: string): TraceExport => {
+  const data = JSON.parse(text);
+  if (data?.format !== 'deepdive-trace' || data.version !== 1) {
+    throw new Error("Not a DeepDive trace.");
+  }
+  if (typeof data.topic !== 'string' || !Array.isArray(data.entries)) {
+    throw new Error("Trace is missing its topic or entries.");
+  }
+  return data as TraceExport;
+};
+
+// --- REPLAY ---
+// Answers every call from the trace instead of a model. Calls are matched on their prompt, so parallel steps
+// may finish in any order; a prompt the trace doesn't know gets the next unused call of the same method.
+// Recorded failures fail again, so retries and error paths replay too. JSON responses are returned verbatim,
+// so a response the agent couldn't parse still can't be parsed.
+export const createReplayProvider = (trace: TraceExport | TraceEntry[]): ModelProvider => {
+  const calls = (Array.isArray(trace) ? trace : trace.entries).filter(isTraceCall).filter(call => !call.aborted);
+  const used = new Set<TraceCall>();
+
+  const take = (method: TraceCall['method'], request: GenerateRequest) => {
+    const unused = calls.filter(call => call.method === method && !used.has(call));
+    const call = unused.find(c => c.prompt === request.prompt && c.systemInstruction === request.systemInstruction)
+      || unused.find(c => c.prompt === request.prompt)
+      || unused[0];
+    if (!call) throw new Error(`The trace has no ${method} call left to replay.`);
+    used.add(call);
+    if (call.error) throw new Error(call.error);
+    return call;
+  };
+
+  const mock = createMockProvider({
+    research: request => {
+      const call = take('research', request);
+      return { text: call.response || '', sources: call.sources || [], grounding: call.grounding };
+    },
+    report: request => take('stream', request).response || '',
+  });
+
+  return {
+    ...mock,
+    id: 'replay',
+    label: 'Trace replay',
+    generateJson: async request => {
+      const text = take('json', request).response || '';
+      request.onUsage?.({ model: request.model || mock.defaultModel, inputTokens: estimateTokens((request.systemInstruction || '') + request.prompt), outputTokens: estimateTokens(text) });
+      return text;
+    },
+  };
+};
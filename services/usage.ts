@@ -0,0 +1,107 @@
+import { AgentName, ResearchSettings, UsageRecord } from "../types";
+import { DEFAULT_SETTINGS, REPORT_WORD_TARGETS } from "./settings";
+
+// --- USAGE AND COST ---
+// Every agent call reports its token counts; the run keeps them as a flat list of UsageRecords.
+// Costs are estimates from list prices and may lag behind the providers' price sheets.
+
+// US dollars per million tokens
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  // Scripted and local models cost nothing
+  'mock': { input: 0, output: 0 },
+  'llama': { input: 0, output: 0 },
+};
+
+// Longest matching prefix wins, so dated variants ("gemini-2.5-flash-preview-05-20") use their family's price
+export const priceFor = (model: string) => {
+  const key = Object.keys(MODEL_PRICING)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? MODEL_PRICING[key] : undefined;
+};
+
+// Undefined for models without a known price
+export const callCost = (record: UsageRecord) => {
+  const price = priceFor(record.model);
+  return price && (record.inputTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  // Calls whose model has no known price; they are missing from `cost`
+  unpricedCalls: number;
+}
+
+const emptySummary = (): UsageSummary => ({ calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0, unpricedCalls: 0 });
+
+const addRecord = (summary: UsageSummary, record: UsageRecord): UsageSummary => {
+  const cost = callCost(record);
+  return {
+    calls: summary.calls + 1,
+    inputTokens: summary.inputTokens + record.inputTokens,
+    outputTokens: summary.outputTokens + record.outputTokens,
+    totalTokens: summary.totalTokens + record.inputTokens + record.outputTokens,
+    cost: summary.cost + (cost || 0),
+    unpricedCalls: summary.unpricedCalls + (cost === undefined ? 1 : 0),
+  };
+};
+
+export const summarizeUsage = (records: UsageRecord[] = []) => records.reduce(addRecord, emptySummary());
+
+export const usageByAgent = (records: UsageRecord[] = []) => {
+  const byAgent = new Map<AgentName, UsageSummary>();
+  records.forEach(record => byAgent.set(record.agent, addRecord(byAgent.get(record.agent) || emptySummary(), record)));
+  return byAgent;
+};
+
+// --- BUDGET ---
+// Tokens the rest of the run is expected to need if one more step is researched: that step (the average of the
+// steps so far) plus the report, whose input is roughly the notes and whose output is the length target.
+const projectedTokens = (records: UsageRecord[], settings: ResearchSettings) => {
+  const steps = records.filter(r => r.agent === 'researcher');
+  const notes = steps.reduce((sum, r) => sum + r.outputTokens, 0);
+  const nextStep = steps.length ? summarizeUsage(steps).totalTokens / steps.length : 0;
+  // About four tokens per three words
+  const report = notes + Math.round(REPORT_WORD_TARGETS[settings.reportLength] * 4 / 3);
+  return nextStep + report;
+};
+
+// True when researching another step and then writing the report would go over the run's budget.
+// Projected tokens are priced at the run's average cost per token so far.
+export const wouldExceedBudget = (records: UsageRecord[] = [], settings: ResearchSettings = DEFAULT_SETTINGS) => {
+  const { budget } = settings;
+  if (!budget?.maxTokens && !budget?.maxCost) return false;
+
+  const spent = summarizeUsage(records);
+  const projected = spent.totalTokens + projectedTokens(records, settings);
+  const costPerToken = spent.totalTokens ? spent.cost / spent.totalTokens : 0;
+  return (!!budget.maxTokens && projected > budget.maxTokens)
+    || (!!budget.maxCost && projected * costPerToken > budget.maxCost);
+};
+
+// True once the run has already spent its budget
+export const isBudgetSpent = (records: UsageRecord[] = [], settings: ResearchSettings = DEFAULT_SETTINGS) => {
+  const { budget } = settings;
+  const spent = summarizeUsage(records);
+  return (!!budget?.maxTokens && spent.totalTokens >= budget.maxTokens) || (!!budget?.maxCost && spent.cost >= budget.maxCost);
+};
+
+// --- FORMATTING ---
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k`
+    : String(tokens);
+
+export const formatCost = (cost: number) =>
+  cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
@@ -8,6 +8,61 @@ export interface Message {
   searchQueries?: string[];
   // If the message contains a plan to be reviewed
   plan?: ResearchPlan;
+  // Set on answers to follow-up questions about a completed report
+  followUp?: {
+    question: string;
+    // The notes could not answer it; the agent offers this targeted search
+    suggestedQuery?: string;
+    // The offered search was run, so the offer is no longer shown
+    researched?: boolean;
+  };
+}
+
+// A previous follow-up question and its answer, given to the Answerer as context
+export interface FollowUpExchange {
+  question: string;
+  answer: string;
+}
+
+export interface FollowUpAnswer {
+  // Markdown with inline [n] citations
+  answer: string;
+  // Set when the notes could not answer the question
+  suggestedQuery?: string;
+}
+
+export type ClaimVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+// One factual claim from the report, checked against the step findings
+export interface CheckedClaim {
+  id: string;
+  claim: string;
+  // Verbatim excerpt of the report sentence, used to highlight it
+  quote: string;
+  verdict: ClaimVerdict;
+  // What the findings say, or what is missing
+  evidence?: string;
+  // Findings the claim was matched against
+  stepIds?: string[];
+}
+
+export interface ReportVerification {
+  claims: CheckedClaim[];
+  checkedAt: number;
+  // Set after the Reporter rewrote the flagged claims
+  revised?: boolean;
+}
+
+// One version of the report. The history only grows: restoring an old version adds a new revision.
+export interface ReportRevision {
+  id: string;
+  content: string;
+  createdAt: number;
+  kind: 'report' | 'section' | 'fact-check' | 'restore';
+  // What changed, e.g. 'Rewrote "Conclusion": make it more cautious'
+  label: string;
+  // The fact-check of this version, if it was checked
+  verification?: ReportVerification;
 }
 
 export interface ResearchStep {
@@ -16,27 +71,339 @@ export interface ResearchStep {
   status: 'pending' | 'researching' | 'completed' | 'failed';
   finding?: string;
   sources?: Source[];
+  // Set when status is 'failed'
+  error?: string;
+  // Number of attempts made, including automatic retries
+  attempts?: number;
+  // Guidance from plan review, passed to the Researcher
+  notes?: string;
+  // Optional steps that fail don't hold the run; they are reported as coverage gaps
+  optional?: boolean;
+  // Deep mode: 0 for the approved plan, n for steps the Analyst added after round n-1
+  round?: number;
+  // Deep mode: the step whose findings prompted this follow-up
+  parentId?: string;
+  // Deep mode: why the Analyst asked this follow-up
+  rationale?: string;
+  // Failed because the run's budget ran out before it started; never holds the run
+  skipped?: boolean;
+  // Comparison mode: the matrix cell this step researches
+  cell?: { entity: string; criterion: string };
+  // Why the finding was held back from the other agents. A quarantined step is 'failed' until the user includes it anyway.
+  quarantine?: InjectionFlag[];
+}
+
+// A passage of untrusted text that reads like instructions to the model
+export interface InjectionFlag {
+  rule: string;
+  excerpt: string;
+}
+
+// A reviewed draft plan sent back to the Planner with the user's feedback
+export interface PlanRevision {
+  feedback: string;
+  steps: ResearchStep[];
+}
+
+// Limits for deep mode, where an Analyst proposes follow-up steps after each round
+export interface DeepResearchConfig {
+  // Follow-up rounds after the approved plan
+  maxDepth: number;
+  // Follow-up steps the Analyst may add per round
+  breadth: number;
+  // Cap on the total number of steps across all rounds
+  maxSteps: number;
+}
+
+// Comparison mode: every entity is researched against every criterion
+export interface ComparisonSpec {
+  entities: string[];
+  criteria: string[];
+}
+
+// One cell of the comparison matrix, summarized from the finding of its step
+export interface ComparisonCell {
+  entity: string;
+  criterion: string;
+  stepId: string;
+  summary: string;
 }
 
 export interface ResearchPlan {
   topic: string;
   steps: ResearchStep[];
+  // Set when the run uses deep mode; absent means a single pass
+  deep?: DeepResearchConfig;
+  // Set in comparison mode; the steps then form an entity × criterion grid
+  comparison?: ComparisonSpec;
 }
 
 export interface Source {
   title: string;
   uri: string;
+  // Files the user attached are 'document'; anything else came from the web
+  type?: 'web' | 'document';
+  // Web sources: domain without www, and how trustworthy that domain is
+  domain?: string;
+  tier?: QualityTier;
+  // Outside the session's allow list; the Reporter only uses it when nothing better supports a claim
+  downranked?: boolean;
+}
+
+export type QualityTier = 'official' | 'academic' | 'news' | 'reference' | 'forum' | 'web';
+
+// Per-session rules applied to web sources as each step finishes
+export interface SourcePolicy {
+  // Preferred domains (subdomains included); with allowOnly, the only domains kept
+  allow: string[];
+  // Domains whose sources are dropped
+  block: string[];
+  allowOnly: boolean;
+  // Tier overrides by domain, on top of the built-in classification
+  tiers: Record<string, QualityTier>;
+}
+
+// A file the user attached to a session, split into passages for retrieval
+export interface LocalDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  addedAt: number;
+  chunks: string[];
 }
 
 export interface ArtifactState {
   title: string;
   content: string;
   // Status helps UI decide what to show (loading spinner, progress list, or final text)
-  phase: 'idle' | 'planning' | 'reviewing' | 'researching' | 'reporting' | 'completed';
+  phase: 'idle' | 'planning' | 'reviewing' | 'researching' | 'reporting' | 'completed' | 'paused' | 'cancelled';
   sources: Source[];
   currentStepId?: string; // To highlight what's being researched currently
 }
 
+export type AgentName = 'planner' | 'researcher' | 'analyst' | 'reporter' | 'answerer' | 'critic' | 'monitor' | 'extractor';
+
+// Per-run configuration, stored with each session so a run can be reproduced
+export interface ResearchSettings {
+  // Model per agent; missing entries use the provider's default model
+  models: Partial<Record<AgentName, string>>;
+  // Range of steps the Planner proposes
+  minSteps: number;
+  maxSteps: number;
+  // Reporter sampling temperature
+  temperature: number;
+  reportLength: 'short' | 'medium' | 'long';
+  // Language of the report and follow-up answers, e.g. "English" or "German"
+  language: string;
+  // Per-run spending limit; unlimited when omitted
+  budget?: RunBudget;
+  // Report structure; the standard template applies when omitted. Stored whole rather than by id
+  // so a session keeps reproducing the same report after the template is edited or deleted.
+  template?: ReportTemplate;
+}
+
+export interface RunBudget {
+  maxTokens?: number;
+  // Estimated cost in US dollars
+  maxCost?: number;
+}
+
+// Token counts one model call reported
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  agent: AgentName;
+  // The research step the call was made for, if any
+  stepId?: string;
+}
+
+// One model call, as an agent made it
+export interface TraceCall {
+  kind: 'call';
+  id: string;
+  agent: AgentName;
+  // The research step the call was made for, if any
+  stepId?: string;
+  method: 'json' | 'research' | 'stream';
+  provider: string;
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  temperature?: number;
+  // Structured output schema of JSON calls
+  schema?: unknown;
+  // Raw response text; for a stream that broke off, what arrived until then
+  response?: string;
+  sources?: Source[];
+  // Grounding metadata exactly as the backend returned it
+  grounding?: unknown;
+  usage?: TokenUsage;
+  startedAt: number;
+  durationMs: number;
+  error?: string;
+  // Cut short by a pause or stop rather than failed
+  aborted?: boolean;
+}
+
+// A failure the coordinator recorded, e.g. a step that ran out of retries or a report that couldn't be parsed
+export interface TraceError {
+  kind: 'error';
+  id: string;
+  at: number;
+  // The event that reported it
+  event: string;
+  stepId?: string;
+  message: string;
+}
+
+export type TraceEntry = TraceCall | TraceError;
+
+export interface TemplateSection {
+  title: string;
+  // What the section should contain; also tells the Planner what to research for it
+  guidance: string;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  description: string;
+  sections: TemplateSection[];
+  // Style rules for the whole report, e.g. tone or formatting
+  guidance?: string;
+  // Shipped with the app; can't be edited or deleted
+  builtIn?: boolean;
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: ResearchSettings;
+  // Shipped with the app; can't be overwritten or deleted
+  builtIn?: boolean;
+}
+
+// A saved research run, persisted in IndexedDB so it survives reloads
+export interface ResearchSession {
+  id: string;
+  // User-editable display name, defaults to the topic
+  title: string;
+  topic: string;
+  plan: ResearchPlan | null;
+  artifact: ArtifactState;
+  messages: Message[];
+  documents?: LocalDocument[];
+  sourcePolicy?: SourcePolicy;
+  settings?: ResearchSettings;
+  // Every agent call made in this session, in order
+  usage?: UsageRecord[];
+  verification?: ReportVerification;
+  revisions?: ReportRevision[];
+  // Entities and relationships extracted from the findings
+  graph?: KnowledgeGraph;
+  // Every agent call of the run, for debugging
+  trace?: TraceEntry[];
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+// --- KNOWLEDGE GRAPH ---
+export type EntityType = 'person' | 'organization' | 'product' | 'place' | 'date' | 'figure' | 'concept';
+
+// Where an entity or relationship was found
+export interface GraphMention {
+  stepId: string;
+  // The step's query, so mentions from other sessions can be shown without loading them
+  query: string;
+  // The sources of that step
+  sources: Source[];
+  // Set when graphs of several sessions are merged
+  sessionId?: string;
+  topic?: string;
+}
+
+export interface GraphEntity {
+  // Derived from type and normalized name, so the same entity gets the same id in every session
+  id: string;
+  name: string;
+  type: EntityType;
+  mentions: GraphMention[];
+}
+
+export interface GraphRelation {
+  id: string;
+  from: string;
+  to: string;
+  // e.g. "acquired", "founded", "competes with"
+  label: string;
+  // The sentence of the finding that states it
+  evidence?: string;
+  mentions: GraphMention[];
+}
+
+export interface KnowledgeGraph {
+  entities: GraphEntity[];
+  relations: GraphRelation[];
+}
+
+// --- MONITORS ---
+// A figure that moved between two monitor runs
+export interface FigureChange {
+  // The step whose finding reports it
+  stepId: string;
+  description: string;
+  before: string;
+  after: string;
+}
+
+// What changed since the previous run of a monitor
+export interface ChangeDigest {
+  summary: string;
+  newSources: Source[];
+  // Cited last time but not this time
+  droppedSources: Source[];
+  changedFigures: FigureChange[];
+  // Steps that failed or were left open last time and are answered now
+  resolvedQuestions: string[];
+  // Other notable news in this run's findings
+  newDevelopments: string[];
+}
+
+export interface MonitorRun {
+  id: string;
+  startedAt: number;
+  completedAt?: number;
+  // The session holding this run's report
+  sessionId?: string;
+  // Missing on the first run, which has nothing to compare with
+  digest?: ChangeDigest;
+  error?: string;
+}
+
+// A saved topic and approved plan that is researched again on demand or on a schedule
+export interface ResearchMonitor {
+  id: string;
+  name: string;
+  // Steps are stored reset to pending; each run researches all of them again
+  plan: ResearchPlan;
+  settings?: ResearchSettings;
+  sourcePolicy?: SourcePolicy;
+  // Hours between scheduled runs; run on demand only when omitted
+  intervalHours?: number;
+  createdAt: number;
+  nextRunAt?: number;
+  // Newest last
+  runs: MonitorRun[];
+  // Findings of the last successful run, compared with the next one
+  baseline?: ResearchStep[];
+}
+
 export enum ViewMode {
   CHAT = 'CHAT',
   SPLIT = 'SPLIT',